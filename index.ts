@@ -8,14 +8,35 @@
  *   MEMORY.md              — curated long-term memory (decisions, preferences, durable facts)
  *   SCRATCHPAD.md           — checklist of things to keep in mind / fix later
  *   daily/YYYY-MM-DD.md    — daily append-only log (today + yesterday loaded at session start)
+ *   daily/weekly/, daily/monthly/ — generated rollups of finished weeks (YYYY-Www.md) and months (YYYY-MM.md)
+ *   projects/<slug>/       — per-project MEMORY.md, SCRATCHPAD.md and notes/ (keyed on git root or cwd)
+ *   .journal/              — append-only write journal and content blobs, used by memory_undo (newest 1,000 kept)
+ *
+ * A repository can also commit shared memory in <repo>/.pi/memory/ (same layout minus daily/),
+ * found by walking up from the session's cwd and merged into context as its own layer.
  *
  * Tools:
  *   memory_write  — write to MEMORY.md or daily log
+ *   memory_edit   — exact replace, line-range delete or insert-after in a memory file
  *   memory_read   — read any memory file or list daily logs
+ *   memory_history — list, diff and restore past versions from the memory dir's git history
+ *   memory_undo   — revert the last N write operations (or a session's) from the write journal
  *   scratchpad    — add/check/uncheck/clear items on the scratchpad checklist
+ *   memory_costs  — cost and token report by day, project, model and parent vs sub-agent
+ *
+ * Commands:
+ *   /memory-consolidate [project|repo] — model-assisted dedupe of MEMORY.md, applied only after confirming the diff
+ *   /memory-costs [since] [until] [--json] — the memory_costs report, shown as a widget until the next prompt
  *
  * Context injection:
- *   - MEMORY.md + SCRATCHPAD.md + today's + yesterday's daily logs injected into every turn
+ *   - MEMORY.md + SCRATCHPAD.md (global, then repo-local and the current project's) + today's + yesterday's daily logs injected into every turn
+ *   - The previous ISO week's rollup as a compact "last week" section
+ *
+ * Session summaries:
+ *   - On session_shutdown / session_switch, a summary of the session (title, cwd, cost, sub-agents, files, outcome) goes to the daily log
+ *
+ * Compaction (PI_COMPACTION_FLUSH=1):
+ *   - Decisions, facts and open TODOs from the messages about to be compacted go to today's log, TODOs to the scratchpad
  *
  * Dashboard widget:
  *   - Auto-generated "Last 24h" summary from session metadata (titles, timestamps, costs)
@@ -36,20 +57,101 @@ import {
 	type MemoryConfig,
 	type ScratchpadItem,
 	type SessionInfo,
+	type SearchResult,
+	type RollupPeriod,
+	type DailyLog,
+	type FlushNotes,
+	type CostGroupBy,
+	type CostReport,
+	QuerySyntaxError,
 	buildConfig,
+	withSession,
+	layerConfig,
+	layerUnavailable,
+	readSection,
+	upsertSection,
+	EditError,
+	replaceExact,
+	deleteLines,
+	insertAfter,
+	unifiedDiff,
+	GIT_LOG_FORMAT,
+	parseGitLog,
+	formatGitLog,
+	isSafeRevision,
 	todayStr,
 	yesterdayStr,
 	nowTimestamp,
 	shortSessionId,
 	readFileSafe,
+	appendEntry,
+	updateFileSync,
+	withFileLock,
+	waitForFileLock,
+	atomicWriteFileSync,
+	journaled,
+	readJournal,
+	pruneJournal,
+	undoableEntries,
+	undoJournalEntries,
+	formatJournalEntry,
+	writeProposal,
+	cleanConsolidation,
+	diffStat,
 	dailyPath,
 	ensureDirs,
+	targetFile,
+	DAILY_DATE_ERROR,
 	parseScratchpad,
 	serializeScratchpad,
+	assignItemIds,
+	newItemId,
+	findScratchpadItems,
+	formatScratchpadList,
+	filterScratchpadItems,
+	sortScratchpadItems,
+	itemText,
+	parseScratchpadSections,
+	parseScratchpadIntros,
+	subtreeEnd,
+	insertSubtask,
+	partitionDone,
+	archiveCompletedItems,
+	appendCompleted,
+	removeItem,
+	moveItem,
+	type MovePosition,
+	newScratchpadItem,
+	openItemsWithAncestors,
+	scratchpadOutline,
 	buildMemoryContext,
-	scanSession,
+	pendingRollups,
+	readDailyLogs,
+	fallbackRollup,
+	formatRollup,
+	rollupPath,
+	flushTranscript,
+	parseFlushResponse,
+	fallbackFlushNotes,
+	formatFlushEntry,
+	addFlushTodos,
+	summarizeSession,
+	formatSessionSummary,
+	hasSessionSummary,
+	upsertSessionSummary,
+	addDays,
+	discoverSessionFiles,
+	updateSessionIndex,
+	indexedSessionInfo,
+	buildCostReport,
+	formatCostReport,
+	resolveCostRange,
+	CostReportError,
 	isHousekeeping,
 	searchMemory,
+	rankedSearch,
+	groupSearchHits,
+	formatFileHits,
 } from "./lib.ts";
 
 const config = buildConfig();
@@ -64,9 +166,21 @@ function gitCommit(message: string) {
 	}
 }
 
+/** Run git in the memory dir and return stdout; throws on failure. */
+function git(args: string[]): string {
+	return execFileSync("git", args, { cwd: config.memoryDir, encoding: "utf-8", timeout: 5000, stdio: ["ignore", "pipe", "pipe"], maxBuffer: 16 * 1024 * 1024 });
+}
+
+function isGitRepo(): boolean {
+	try {
+		return git(["rev-parse", "--is-inside-work-tree"]).trim() === "true";
+	} catch {
+		return false;
+	}
+}
+
 // --- Session scanner for "Last 24h" dashboard ---
 
-const SESSIONS_DIR = path.join(process.env.HOME ?? "~", ".pi", "agent", "sessions");
 const SUMMARY_CACHE = path.join(config.dailyDir, "cache.json");
 const REBUILD_INTERVAL_MS = 15 * 60 * 1000;
 const LOOKBACK_MS = 24 * 60 * 60 * 1000;
@@ -74,34 +188,18 @@ const LOOKBACK_MS = 24 * 60 * 60 * 1000;
 let modelRegistryRef: any = null;
 
 async function collectSessions(): Promise<{ roots: SessionInfo[]; childCountMap: Map<string, number>; totalCost: number }> {
-	const cutoff = new Date(Date.now() - LOOKBACK_MS);
-	const sessionDirs: string[] = [];
-
-	try {
-		for (const dir of fs.readdirSync(SESSIONS_DIR)) {
-			if (dir.startsWith("--Users-") && !dir.includes("-T-pi-")) {
-				sessionDirs.push(path.join(SESSIONS_DIR, dir));
-			}
-		}
-	} catch { return { roots: [], childCountMap: new Map(), totalCost: 0 }; }
-
-	const recentFiles: string[] = [];
-	for (const dir of sessionDirs) {
-		try {
-			for (const file of fs.readdirSync(dir)) {
-				if (!file.endsWith(".jsonl")) continue;
-				const filePath = path.join(dir, file);
-				try {
-					if (fs.statSync(filePath).mtime >= cutoff) recentFiles.push(filePath);
-				} catch { continue; }
-			}
-		} catch { continue; }
-	}
+	const cutoff = Date.now() - LOOKBACK_MS;
+	const recentFiles = discoverSessionFiles(config, cutoff);
 
 	if (recentFiles.length === 0) return { roots: [], childCountMap: new Map(), totalCost: 0 };
 
-	const results = await Promise.all(recentFiles.map(scanSession));
-	const sessions = results.filter((s): s is SessionInfo => s !== null);
+	// Only new or grown transcripts are read; the rest come from .index/sessions.json
+	const index = await updateSessionIndex(config, recentFiles);
+	const sessions: SessionInfo[] = [];
+	for (const file of recentFiles) {
+		const entry = index.sessions[file];
+		if (entry?.timestamp && new Date(entry.timestamp).getTime() >= cutoff) sessions.push(indexedSessionInfo(file, entry));
+	}
 
 	const roots = sessions.filter(s => !s.isChild);
 	const children = sessions.filter(s => s.isChild);
@@ -117,8 +215,9 @@ async function collectSessions(): Promise<{ roots: SessionInfo[]; childCountMap:
 	return { roots, childCountMap, totalCost };
 }
 
-async function summarizeWithLLM(sessions: SessionInfo[], childCountMap: Map<string, number>, totalCost: number): Promise<string> {
-	if (!modelRegistryRef) return "";
+/** The first small model with an API key, shared by the dashboard summary and rollups. */
+async function pickSummaryModel(): Promise<{ model: any; apiKey: string } | null> {
+	if (!modelRegistryRef) return null;
 
 	const candidates = [
 		getModel("openai", "gpt-4.1-mini"),
@@ -126,14 +225,26 @@ async function summarizeWithLLM(sessions: SessionInfo[], childCountMap: Map<stri
 		modelRegistryRef.find("jo-proxy", "jo-gpt-4.1-mini"),
 	];
 
-	let model: any = null;
-	let apiKey: string | undefined;
 	for (const candidate of candidates) {
 		if (!candidate) continue;
 		const key = await modelRegistryRef.getApiKey(candidate);
-		if (key) { model = candidate; apiKey = key; break; }
+		if (key) return { model: candidate, apiKey: key };
 	}
-	if (!model || !apiKey) return "";
+	return null;
+}
+
+function responseText(response: { content: any[] }): string {
+	return response.content
+		.filter((c: any) => c.type === "text")
+		.map((c: any) => c.text)
+		.join("")
+		.trim();
+}
+
+async function summarizeWithLLM(sessions: SessionInfo[], childCountMap: Map<string, number>, totalCost: number): Promise<string> {
+	const picked = await pickSummaryModel();
+	if (!picked) return "";
+	const { model, apiKey } = picked;
 
 	const listing = sessions.map((s, _i) => {
 		const childCount = childCountMap.get(s.file) || 0;
@@ -167,11 +278,7 @@ async function summarizeWithLLM(sessions: SessionInfo[], childCountMap: Map<stri
 		}],
 	}, { apiKey });
 
-	return response.content
-		.filter((c: any) => c.type === "text")
-		.map((c: any) => c.text)
-		.join("")
-		.trim();
+	return responseText(response);
 }
 
 async function buildSessionSummary(): Promise<string> {
@@ -200,6 +307,237 @@ async function buildSessionSummary(): Promise<string> {
 	return lines.join("\n");
 }
 
+// --- Weekly and monthly rollups of the daily logs ---
+
+/** Daily logs beyond this are cut from the prompt; a month of heavy logging would otherwise blow the context. */
+const ROLLUP_INPUT_CHARS = 60_000;
+
+async function summarizeRollupWithLLM(period: RollupPeriod, logs: DailyLog[]): Promise<string> {
+	const picked = await pickSummaryModel();
+	if (!picked) return "";
+
+	const perDay = Math.floor(ROLLUP_INPUT_CHARS / logs.length);
+	const input = logs
+		.map(l => `## ${l.date}\n\n${l.content.length > perDay ? `${l.content.slice(0, perDay)}\n[...]` : l.content}`)
+		.join("\n\n");
+	const span = period.kind === "weekly" ? "week" : "month";
+
+	const response = await completeSimple(picked.model, {
+		systemPrompt: [
+			`You are writing a ${span}ly rollup of a developer's daily memory logs, to be read by a coding agent in later sessions.`,
+			"Write a concise markdown summary. Rules:",
+			"",
+			"- Group by TOPIC or project, not by day. Short bold header per group.",
+			"- Keep decisions, outcomes, open problems and anything marked important. Drop routine chatter.",
+			"- Mention dates only where they matter (deadlines, when something shipped or broke).",
+			`- Keep total output under ${period.kind === "weekly" ? 20 : 35} lines.`,
+			"- Do NOT include a title line — the caller adds that.",
+		].join("\n"),
+		messages: [{
+			role: "user" as const,
+			content: [{ type: "text" as const, text: `Daily logs for ${period.period} (${logs.length} days with entries):\n\n${input}` }],
+			timestamp: Date.now(),
+		}],
+	}, { apiKey: picked.apiKey });
+
+	return responseText(response);
+}
+
+// --- MEMORY.md consolidation ---
+
+async function consolidateWithLLM(memory: string): Promise<string> {
+	const picked = await pickSummaryModel();
+	if (!picked) return "";
+
+	const response = await completeSimple(picked.model, {
+		systemPrompt: [
+			"You are consolidating a coding agent's long-term memory file (MEMORY.md). It grew by appending timestamped entries,",
+			"so it contains duplicates, stale facts and contradictions. Rewrite it as one clean document. Rules:",
+			"",
+			"- Organize by TOPIC under '## ' headings (e.g. Preferences, Decisions, People, Projects). Keep existing headings where they fit.",
+			"- Merge duplicates into one bullet. When entries contradict, keep the newest (entries are stamped oldest first).",
+			"- Keep every distinct fact, preference and decision. Do not invent, generalize away specifics, or add commentary.",
+			"- Drop the <!-- timestamp --> stamps.",
+			"- Output only the new file content, no preamble.",
+		].join("\n"),
+		messages: [{
+			role: "user" as const,
+			content: [{ type: "text" as const, text: memory }],
+			timestamp: Date.now(),
+		}],
+	}, { apiKey: picked.apiKey });
+
+	return cleanConsolidation(responseText(response));
+}
+
+// --- Memory flush before compaction (PI_COMPACTION_FLUSH) ---
+
+/** PI_FLUSH_MODEL when it resolves to a model with a key, otherwise the dashboard's model. */
+async function pickFlushModel(): Promise<{ model: any; apiKey: string } | null> {
+	if (config.flushModel && modelRegistryRef) {
+		const [provider, ...rest] = config.flushModel.split("/");
+		const model = modelRegistryRef.find(provider, rest.join("/"));
+		const apiKey = model ? await modelRegistryRef.getApiKey(model) : undefined;
+		if (model && apiKey) return { model, apiKey };
+	}
+	return pickSummaryModel();
+}
+
+async function extractFlushNotes(transcript: string, signal?: AbortSignal): Promise<FlushNotes | null> {
+	const picked = await pickFlushModel();
+	if (!picked) return null;
+
+	const response = await completeSimple(picked.model, {
+		systemPrompt: [
+			"You are reading part of a coding session that is about to be compacted away. Extract what must not be lost.",
+			"Answer with JSON only: {\"decisions\": string[], \"todos\": string[], \"facts\": string[]}",
+			"",
+			"- decisions: choices that were made and why, in one line each.",
+			"- todos: work that was agreed or discovered but NOT finished, phrased as a task.",
+			"- facts: durable facts about the user, the codebase or the environment that will matter later.",
+			"- Be specific (names, paths, versions). Skip anything that is only true for this conversation.",
+			"- Empty arrays are fine. At most 10 items per list.",
+		].join("\n"),
+		messages: [{
+			role: "user" as const,
+			content: [{ type: "text" as const, text: transcript }],
+			timestamp: Date.now(),
+		}],
+	}, { apiKey: picked.apiKey, signal });
+
+	return parseFlushResponse(responseText(response));
+}
+
+/**
+ * Write decisions, facts and open TODOs from the messages about to be
+ * compacted to today's daily log, and the TODOs to the scratchpad. Returns
+ * a one-line report, or "" when there was nothing to record.
+ */
+async function flushBeforeCompaction(messages: { role?: string; content?: unknown }[], sid: string, signal?: AbortSignal): Promise<string> {
+	const transcript = flushTranscript(messages);
+	if (!transcript) return "";
+
+	let extracted: FlushNotes | null = null;
+	try {
+		extracted = await extractFlushNotes(transcript, signal);
+	} catch {
+		// Fall through to the deterministic notes
+	}
+	const source = extracted ? "llm" : "fallback";
+	const notes = extracted ?? fallbackFlushNotes(messages);
+
+	// One clock reading for the stamp and the log, so a flush around midnight lands in a single day
+	const now = new Date();
+	const ts = nowTimestamp(config, now);
+	const today = todayStr(config, now);
+	const dailyFile = dailyPath(config.dailyDir, today);
+	const entry = formatFlushEntry(notes, { timestamp: ts, sessionId: sid, messages: messages.length, source });
+	if (!entry) return "";
+
+	ensureDirs(config);
+	await waitForFileLock(dailyFile);
+	if (notes.todos.length > 0) await waitForFileLock(config.scratchpadFile);
+	let added = 0;
+	journaled(config, { operation: "compaction flush", sessionId: sid, timestamp: ts }, () => {
+		updateFileSync(dailyFile, (current) => appendEntry(current, entry));
+		if (notes.todos.length > 0) {
+			updateFileSync(config.scratchpadFile, (current) => {
+				const result = addFlushTodos(current ?? "", notes.todos, { timestamp: ts, sessionId: sid });
+				added = result.added;
+				return result.content;
+			});
+		}
+	});
+	gitCommit(`daily: ${today} (compaction flush)`);
+
+	const counts = source === "llm"
+		? `${notes.decisions.length} decision(s), ${notes.facts.length} fact(s), ${notes.todos.length} TODO(s)`
+		: `${notes.requests.length} request(s); no model was available`;
+	return `Saved ${counts} to daily/${today}.md before compaction${added > 0 ? `, ${added} new scratchpad item(s)` : ""}.`;
+}
+
+// --- Session-end summaries (session_shutdown / session_switch) ---
+
+/**
+ * Append (or, for a resumed session, update) the session's summary entry.
+ * The entry stays in whichever daily log first received it.
+ */
+async function recordSessionSummary(sessionFile: string | undefined): Promise<void> {
+	if (!config.sessionSummaries || !sessionFile) return;
+	const summary = await summarizeSession(config, sessionFile);
+	if (!summary) return;
+
+	const ts = nowTimestamp(config);
+	const entry = formatSessionSummary(summary, { timestamp: ts });
+	const today = todayStr(config);
+	const startDay = todayStr(config, new Date(summary.started));
+	let day = today;
+	for (let d = startDay; d < today; d = addDays(d, 1)) {
+		if (hasSessionSummary(readFileSafe(dailyPath(config.dailyDir, d)) ?? "", summary.id)) { day = d; break; }
+	}
+
+	ensureDirs(config);
+	await waitForFileLock(dailyPath(config.dailyDir, day));
+	let changed = false;
+	journaled(config, { operation: "session summary", sessionId: shortSessionId(summary.id), timestamp: ts }, () => {
+		updateFileSync(dailyPath(config.dailyDir, day), (current) => {
+			const next = upsertSessionSummary(current ?? "", summary.id, entry);
+			changed = next !== (current ?? "");
+			return next;
+		});
+	});
+	if (changed) gitCommit(`daily: ${day} (session ${shortSessionId(summary.id)})`);
+}
+
+// --- Cost analytics (memory_costs tool, /memory-costs command) ---
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Cost report over the session index. Sub-agents often run from temp
+ * directories, so discovery ignores the dashboard's include/exclude patterns.
+ */
+async function costReport(opts: { since?: string; until?: string; groupBy?: CostGroupBy[]; project?: string; format?: "markdown" | "json" }): Promise<{ text: string; report: CostReport }> {
+	const { since, until } = resolveCostRange(config, opts.since, opts.until);
+
+	// A transcript last written before the range can't hold usage inside it; a day of slack covers timezones
+	const files = discoverSessionFiles(config, Date.parse(`${since}T00:00:00Z`) - DAY_MS, { unfiltered: true });
+	const index = await updateSessionIndex(config, files);
+	const report = buildCostReport(index, { since, until, groupBy: opts.groupBy, project: opts.project });
+	const text = opts.format === "json" ? JSON.stringify(report, null, 2) : formatCostReport(report);
+	return { text, report };
+}
+
+let rollupsRunning = false;
+
+/** Write rollups for recently finished weeks and months that don't have one yet. */
+async function generateRollups(): Promise<void> {
+	if (rollupsRunning) return;
+	rollupsRunning = true;
+	try {
+		for (const period of pendingRollups(config, todayStr(config))) {
+			const logs = readDailyLogs(config, period.days);
+			if (logs.length === 0) continue;
+			let summary = "";
+			try {
+				summary = await summarizeRollupWithLLM(period, logs);
+			} catch {}
+			const source = summary ? "llm" : "fallback";
+			const content = formatRollup(period, summary || fallbackRollup(logs), { generated: nowTimestamp(config), source });
+			const filePath = rollupPath(config, period.kind, period.period);
+			fs.mkdirSync(path.dirname(filePath), { recursive: true });
+			// Another session may have finished the same period while the model was thinking
+			if (fs.existsSync(filePath)) continue;
+			atomicWriteFileSync(filePath, content);
+			gitCommit(`rollup: ${period.kind} ${period.period}`);
+		}
+	} catch {
+		// Rollups are best-effort; the daily logs remain the source of truth
+	} finally {
+		rollupsRunning = false;
+	}
+}
+
 let cachedSummary = "";
 let lastRebuildTime = 0;
 
@@ -225,7 +563,7 @@ async function getOrRebuildSummary(): Promise<string> {
 
 	try {
 		ensureDirs(config);
-		fs.writeFileSync(SUMMARY_CACHE, JSON.stringify({ summary: cachedSummary, timestamp: now }), "utf-8");
+		atomicWriteFileSync(SUMMARY_CACHE, JSON.stringify({ summary: cachedSummary, timestamp: now }));
 	} catch {}
 
 	return cachedSummary;
@@ -240,18 +578,12 @@ export default function (pi: ExtensionAPI) {
 		const summary = await getOrRebuildSummary();
 		const scratchContent = readFileSafe(config.scratchpadFile);
 
-		// Parse scratchpad items
-		const openItems: string[] = [];
-		if (scratchContent?.trim()) {
-			const lines = scratchContent.trim().split("\n");
-			for (const l of lines) {
-				if (l.match(/^- \[ \]/) && !l.match(/^<!--.*-->$/)) {
-					openItems.push(l.replace(/^- /, ""));
-				}
-			}
-		}
+		// Parse scratchpad items; done parents stay visible above their open subtasks
+		const scratchItems = parseScratchpad(scratchContent ?? "");
+		const openCount = scratchItems.filter((i) => !i.done).length;
+		const scratchTree = scratchpadOutline(openItemsWithAncestors(scratchItems), parseScratchpadSections(scratchContent ?? "")).join("\n");
 
-		if (!summary && openItems.length === 0) return;
+		if (!summary && openCount === 0) return;
 
 		ctx.ui.setWidget("memory-dashboard", (_tui: any, theme: any) => {
 			const mdTheme = getMarkdownTheme();
@@ -274,9 +606,9 @@ export default function (pi: ExtensionAPI) {
 					if (summary) {
 						container.addChild(new Markdown(summary, 1, 0, mdTheme));
 					}
-					if (openItems.length > 0) {
+					if (openCount > 0) {
 						if (summary) container.addChild(new Spacer(1));
-						const scratchMd = `## Scratchpad\n\n${openItems.join("\n")}`;
+						const scratchMd = `## Scratchpad\n\n${scratchTree}`;
 						container.addChild(new Markdown(scratchMd, 1, 0, mdTheme));
 					}
 				} else {
@@ -288,8 +620,8 @@ export default function (pi: ExtensionAPI) {
 						const sessions = sessMatch ? sessMatch[1] : "0";
 						parts.push(`Last 24h: ${cost}, ${sessions} log entries`);
 					}
-					if (openItems.length > 0) {
-						parts.push(`${openItems.length} scratchpad item${openItems.length > 1 ? "s" : ""}`);
+					if (openCount > 0) {
+						parts.push(`${openCount} scratchpad item${openCount > 1 ? "s" : ""}`);
 					}
 					const hint = keyHint("expandTools", "to expand");
 					const line = theme.fg("muted", parts.join(", ")) + " " + theme.fg("dim", `(${hint})`);
@@ -317,40 +649,52 @@ export default function (pi: ExtensionAPI) {
 	pi.on("session_start", async (_event, ctx) => {
 		modelRegistryRef = ctx.modelRegistry;
 		await showDashboard(ctx);
+		void generateRollups();
+		try { pruneJournal(config); } catch {}
 
 		if (!rebuildTimer) {
 			rebuildTimer = setInterval(async () => {
+				void generateRollups();
 				cachedSummary = await buildSessionSummary();
 				lastRebuildTime = Date.now();
 				try {
 					ensureDirs(config);
-					fs.writeFileSync(SUMMARY_CACHE, JSON.stringify({ summary: cachedSummary, timestamp: lastRebuildTime }), "utf-8");
+					atomicWriteFileSync(SUMMARY_CACHE, JSON.stringify({ summary: cachedSummary, timestamp: lastRebuildTime }));
 				} catch {}
 			}, REBUILD_INTERVAL_MS);
 		}
 	});
 
-	pi.on("session_switch", async (_event, ctx) => {
+	pi.on("session_switch", async (event, ctx) => {
 		modelRegistryRef = ctx.modelRegistry;
+		try {
+			await recordSessionSummary(event.previousSessionFile);
+		} catch {}
 		await showDashboard(ctx);
 	});
 
 	pi.on("agent_start", async (_event, ctx) => {
 		ctx.ui.setWidget("memory-dashboard", undefined);
+		ctx.ui.setWidget("memory-costs", undefined);
 	});
 
-	pi.on("session_shutdown", async () => {
+	pi.on("session_shutdown", async (_event, ctx) => {
 		if (rebuildTimer) { clearInterval(rebuildTimer); rebuildTimer = null; }
+		try {
+			await recordSessionSummary(ctx.sessionManager.getSessionFile());
+		} catch {}
 	});
 
-	pi.on("before_agent_start", async (event, _ctx) => {
-		const memoryContext = buildMemoryContext(config);
+	pi.on("before_agent_start", async (event, ctx) => {
+		const memoryContext = buildMemoryContext(withSession(config, ctx.cwd));
 		if (!memoryContext) return;
 
 		const memoryInstructions = [
 			"\n\n## Memory",
 			"The following memory files have been loaded. Use the memory_write tool to persist important information.",
 			"- Decisions, preferences, and durable facts \u2192 MEMORY.md",
+			"- Facts that only apply to the current project \u2192 memory_write / scratchpad with scope 'project'",
+			"- Knowledge the whole team should share \u2192 scope 'repo' (the repository's committed .pi/memory)",
 			"- Day-to-day notes and running context \u2192 daily/<YYYY-MM-DD>.md",
 			"- Things to fix later or keep in mind \u2192 scratchpad tool",
 			'- If someone says "remember this," write it immediately.',
@@ -363,8 +707,21 @@ export default function (pi: ExtensionAPI) {
 		};
 	});
 
-	pi.on("session_before_compact", async (_event, ctx) => {
-		const memoryContext = buildMemoryContext(config);
+	pi.on("session_before_compact", async (event, ctx) => {
+		if (config.compactionFlush) {
+			modelRegistryRef = ctx.modelRegistry;
+			const { preparation } = event;
+			const messages = [...preparation.messagesToSummarize, ...preparation.turnPrefixMessages];
+			try {
+				const result = await flushBeforeCompaction(messages, shortSessionId(ctx.sessionManager.getSessionId()), event.signal);
+				if (result) ctx.ui.notify(result, "info");
+			} catch (err) {
+				ctx.ui.notify(`Memory flush before compaction failed: ${(err as Error).message}`, "warning");
+			}
+			return;
+		}
+
+		const memoryContext = buildMemoryContext(withSession(config, ctx.cwd));
 		const hasMemory = memoryContext.length > 0;
 
 		if (hasMemory) {
@@ -379,9 +736,12 @@ export default function (pi: ExtensionAPI) {
 		description: [
 			"Write to memory files. Three targets:",
 			"- 'long_term': Write to MEMORY.md (curated durable facts, decisions, preferences). Mode: 'append' or 'overwrite'.",
+			"  Pass 'section' to append to (or, with 'overwrite', replace) the body under that '## ' heading only; it is created if missing.",
 			"- 'daily': Append to today's daily log (daily/<YYYY-MM-DD>.md). Always appends.",
 			"- 'note': Create or update a file in notes/ (e.g. lessons.md, self-review.md). Pass filename. Mode: 'append' or 'overwrite'.",
 			"Use this when the user asks you to remember something, or when you learn important preferences/decisions.",
+			"Pass scope 'project' to write MEMORY.md or notes/ for the current project (keyed on the git root or cwd) instead of global memory,",
+			"or scope 'repo' to write the repository's shared .pi/memory (meant to be committed with the code).",
 		].join("\n"),
 		parameters: Type.Object({
 			target: StringEnum(["long_term", "daily", "note"] as const, {
@@ -396,53 +756,72 @@ export default function (pi: ExtensionAPI) {
 			filename: Type.Optional(
 				Type.String({ description: "Filename for 'note' target (e.g. 'lessons.md')" }),
 			),
+			section: Type.Optional(
+				Type.String({ description: "For 'long_term': '## ' heading to write under (e.g. 'Preferences'). The rest of MEMORY.md is left untouched." }),
+			),
+			scope: Type.Optional(
+				StringEnum(["global", "project", "repo"] as const, {
+					description: "Global memory (default), the current project's memory, or the repository's shared .pi/memory. Daily logs are always global.",
+				}),
+			),
 		}),
 		async execute(_toolCallId, params, _signal, _onUpdate, ctx) {
-			ensureDirs(config);
-			const { target, content, mode, filename } = params;
+			const { target, content, mode, filename, section, scope } = params;
+			if (scope && scope !== "global" && target === "daily") {
+				return { content: [{ type: "text", text: `Error: daily logs are global; use scope '${scope}' with 'long_term' or 'note'.` }], details: {} };
+			}
+			const unavailable = layerUnavailable(config, scope ?? "global");
+			if (unavailable) {
+				return { content: [{ type: "text", text: `Error: ${unavailable}` }], details: {} };
+			}
+			const { config: mem, prefix } = layerConfig(config, scope ?? "global", ctx.cwd);
+			ensureDirs(mem);
 			const sid = shortSessionId(ctx.sessionManager.getSessionId());
-			const ts = nowTimestamp();
+			const ts = nowTimestamp(config);
+			const journal = { operation: `memory_write ${prefix}${target}${section?.trim() ? " section" : ""} ${mode ?? "append"}`, sessionId: sid, timestamp: ts };
 
 			if (target === "note") {
 				if (!filename) {
 					return { content: [{ type: "text", text: "Error: 'filename' is required for target 'note'." }], details: {} };
 				}
 				const safe = path.basename(filename);
-				const filePath = path.join(config.notesDir, safe);
-				const existing = readFileSafe(filePath) ?? "";
+				const filePath = path.join(mem.notesDir, safe);
+				await waitForFileLock(filePath);
 
 				if (mode === "overwrite") {
 					const stamped = `<!-- last updated: ${ts} [${sid}] -->\n${content}`;
-					fs.writeFileSync(filePath, stamped, "utf-8");
-					gitCommit(`note: ${safe}`);
+					journaled(config, journal, () => updateFileSync(filePath, () => stamped));
+					gitCommit(`note: ${prefix}${safe}`);
 					return {
-						content: [{ type: "text", text: `Wrote notes/${safe}` }],
+						content: [{ type: "text", text: `Wrote ${prefix}notes/${safe}` }],
 						details: { path: filePath, target, mode: "overwrite", sessionId: sid, timestamp: ts },
 					};
 				}
 
-				const separator = existing.trim() ? "\n\n" : "";
 				const stamped = `<!-- ${ts} [${sid}] -->\n${content}`;
-				fs.writeFileSync(filePath, existing + separator + stamped, "utf-8");
-				gitCommit(`note: ${safe}`);
+				journaled(config, journal, () => updateFileSync(filePath, (existing) => appendEntry(existing, stamped)));
+				gitCommit(`note: ${prefix}${safe}`);
 				return {
-					content: [{ type: "text", text: `Appended to notes/${safe}` }],
+					content: [{ type: "text", text: `Appended to ${prefix}notes/${safe}` }],
 					details: { path: filePath, target, mode: "append", sessionId: sid, timestamp: ts },
 				};
 			}
 
 			if (target === "daily") {
-				const filePath = dailyPath(config.dailyDir, todayStr());
-				const existing = readFileSafe(filePath) ?? "";
+				const filePath = dailyPath(config.dailyDir, todayStr(config));
+				await waitForFileLock(filePath);
+				let existing = "";
+				const stamped = `<!-- ${ts} [${sid}] -->\n${content}`;
+				journaled(config, journal, () => updateFileSync(filePath, (current) => {
+					existing = current ?? "";
+					return appendEntry(current, stamped);
+				}));
 
 				const existingSnippet = existing.trim()
 					? `\n\nExisting daily log content:\n${existing.trim()}`
 					: "\n\nDaily log was empty.";
 
-				const separator = existing.trim() ? "\n\n" : "";
-				const stamped = `<!-- ${ts} [${sid}] -->\n${content}`;
-				fs.writeFileSync(filePath, existing + separator + stamped, "utf-8");
-				gitCommit(`daily: ${todayStr()}`);
+				gitCommit(`daily: ${todayStr(config)}`);
 				return {
 					content: [{ type: "text", text: `Appended to daily log: ${filePath}${existingSnippet}` }],
 					details: { path: filePath, target, mode: "append", sessionId: sid, timestamp: ts },
@@ -450,125 +829,670 @@ export default function (pi: ExtensionAPI) {
 			}
 
 			// long_term
-			const existing = readFileSafe(config.memoryFile) ?? "";
+			await waitForFileLock(mem.memoryFile);
+			if (section?.trim()) {
+				const heading = section.trim().replace(/^#+\s*/, "");
+				const sectionMode = mode === "overwrite" ? "replace" : "append";
+				const stamped = sectionMode === "replace"
+					? `<!-- last updated: ${ts} [${sid}] -->\n${content}`
+					: `<!-- ${ts} [${sid}] -->\n${content}`;
+				let before = null as string | null;
+				journaled(config, journal, () => updateFileSync(mem.memoryFile, (current) => {
+					before = readSection(current ?? "", heading);
+					return upsertSection(current ?? "", heading, stamped, sectionMode);
+				}));
+				gitCommit(`memory: ${prefix}${sectionMode} section ${heading}`);
+				const previous = before
+					? `\n\nPrevious content under "## ${heading}":\n${before}`
+					: before === null ? `\n\nCreated section "## ${heading}".` : `\n\nSection "## ${heading}" was empty.`;
+				return {
+					content: [{ type: "text", text: `${sectionMode === "replace" ? "Replaced" : "Appended to"} "## ${heading}" in ${prefix}MEMORY.md${previous}` }],
+					details: { path: mem.memoryFile, target, mode: mode ?? "append", section: heading, sessionId: sid, timestamp: ts },
+				};
+			}
+
+			let existing = "";
+			const stamped = mode === "overwrite"
+				? `<!-- last updated: ${ts} [${sid}] -->\n${content}`
+				: `<!-- ${ts} [${sid}] -->\n${content}`;
+			journaled(config, journal, () => updateFileSync(mem.memoryFile, (current) => {
+				existing = current ?? "";
+				return mode === "overwrite" ? stamped : appendEntry(current, stamped);
+			}));
 			const existingSnippet = existing.trim()
-				? `\n\nExisting MEMORY.md content:\n${existing.trim()}`
-				: "\n\nMEMORY.md was empty.";
+				? `\n\nExisting ${prefix}MEMORY.md content:\n${existing.trim()}`
+				: `\n\n${prefix}MEMORY.md was empty.`;
 
 			if (mode === "overwrite") {
-				const stamped = `<!-- last updated: ${ts} [${sid}] -->\n${content}`;
-				fs.writeFileSync(config.memoryFile, stamped, "utf-8");
-				gitCommit("memory: overwrite");
+				gitCommit(`memory: ${prefix}overwrite`);
 				return {
-					content: [{ type: "text", text: `Overwrote MEMORY.md${existingSnippet}` }],
-					details: { path: config.memoryFile, target, mode: "overwrite", sessionId: sid, timestamp: ts },
+					content: [{ type: "text", text: `Overwrote ${prefix}MEMORY.md${existingSnippet}` }],
+					details: { path: mem.memoryFile, target, mode: "overwrite", sessionId: sid, timestamp: ts },
 				};
 			}
 
-			const separator = existing.trim() ? "\n\n" : "";
-			const stamped = `<!-- ${ts} [${sid}] -->\n${content}`;
-			fs.writeFileSync(config.memoryFile, existing + separator + stamped, "utf-8");
-			gitCommit("memory: append");
+			gitCommit(`memory: ${prefix}append`);
 			return {
-				content: [{ type: "text", text: `Appended to MEMORY.md${existingSnippet}` }],
-				details: { path: config.memoryFile, target, mode: "append", sessionId: sid, timestamp: ts },
+				content: [{ type: "text", text: `Appended to ${prefix}MEMORY.md${existingSnippet}` }],
+				details: { path: mem.memoryFile, target, mode: "append", sessionId: sid, timestamp: ts },
 			};
 		},
 	});
 
-	// scratchpad tool
+	// memory_edit tool
 	pi.registerTool({
-		name: "scratchpad",
-		label: "Scratchpad",
+		name: "memory_edit",
+		label: "Memory Edit",
 		description: [
-			"Manage a checklist of things to fix later or keep in mind. Actions:",
-			"- 'add': Add a new unchecked item (- [ ] text)",
-			"- 'done': Mark an item as done (- [x] text). Match by substring.",
-			"- 'undo': Uncheck a done item back to open. Match by substring.",
-			"- 'clear_done': Remove all checked items from the list.",
-			"- 'list': Show all items.",
+			"Make a targeted edit to a memory file instead of overwriting it. Targets: 'long_term' (MEMORY.md),",
+			"'note' (notes/<filename>), 'daily' (daily/<date>.md, default today) and 'file' (any root file, e.g. SOUL.md). Operations:",
+			"- 'replace': Replace 'old_text' with 'new_text'. 'old_text' must match exactly once, including whitespace.",
+			"- 'delete_lines': Delete lines 'start_line'..'end_line' (1-based, inclusive). Read the file first to get line numbers.",
+			"- 'insert_after': Insert 'new_text' after the one line containing 'anchor'.",
+			"Returns a unified diff of the change. Pass scope 'project' or 'repo' to edit that layer's files.",
 		].join("\n"),
 		parameters: Type.Object({
-			action: StringEnum(["add", "done", "undo", "clear_done", "list"] as const, {
+			target: StringEnum(["long_term", "note", "daily", "file"] as const, {
+				description: "File to edit",
+			}),
+			operation: StringEnum(["replace", "delete_lines", "insert_after"] as const, {
+				description: "Kind of edit",
+			}),
+			filename: Type.Optional(
+				Type.String({ description: "Filename for 'note' and 'file' targets (e.g. 'lessons.md', 'SOUL.md')" }),
+			),
+			date: Type.Optional(
+				Type.String({ description: "Date for 'daily' target (YYYY-MM-DD). Default: today." }),
+			),
+			old_text: Type.Optional(
+				Type.String({ description: "For replace: the exact text to replace" }),
+			),
+			new_text: Type.Optional(
+				Type.String({ description: "For replace: the replacement (may be empty). For insert_after: the lines to insert." }),
+			),
+			start_line: Type.Optional(
+				Type.Number({ description: "For delete_lines: first line to delete (1-based)" }),
+			),
+			end_line: Type.Optional(
+				Type.Number({ description: "For delete_lines: last line to delete (inclusive). Default: start_line." }),
+			),
+			anchor: Type.Optional(
+				Type.String({ description: "For insert_after: text identifying the line to insert after; must match one line" }),
+			),
+			scope: Type.Optional(
+				StringEnum(["global", "project", "repo"] as const, {
+					description: "Global memory (default), the current project's memory, or the repository's shared .pi/memory. Daily logs are always global.",
+				}),
+			),
+		}),
+		async execute(_toolCallId, params, _signal, _onUpdate, ctx) {
+			const { target, operation, filename, date, old_text, new_text, start_line, end_line, anchor, scope } = params;
+			const error = (message: string) => ({ content: [{ type: "text" as const, text: `Error: ${message}` }], details: {} });
+			if (scope && scope !== "global" && target === "daily") {
+				return error(`daily logs are global; use scope '${scope}' with 'long_term', 'note' or 'file'.`);
+			}
+			const unavailable = layerUnavailable(config, scope ?? "global");
+			if (unavailable) return error(unavailable);
+			const { config: mem, prefix } = layerConfig(config, scope ?? "global", ctx.cwd);
+
+			const file = targetFile(mem, target, { filename, date });
+			if (!file) {
+				return error(target === "daily" ? DAILY_DATE_ERROR : `'filename' is required for target '${target}'.`);
+			}
+			const filePath = file.path;
+			const name = file.name;
+			const display = `${prefix}${name}`;
+
+			if (operation === "replace" && (old_text === undefined || new_text === undefined)) {
+				return error("'old_text' and 'new_text' are required for replace.");
+			}
+			if (operation === "delete_lines" && start_line === undefined) {
+				return error("'start_line' is required for delete_lines.");
+			}
+			if (operation === "insert_after" && (!anchor || new_text === undefined)) {
+				return error("'anchor' and 'new_text' are required for insert_after.");
+			}
+			const apply = (content: string) => {
+				if (operation === "replace") return replaceExact(content, old_text!, new_text!);
+				if (operation === "delete_lines") return deleteLines(content, start_line!, end_line ?? start_line!);
+				return insertAfter(content, anchor!, new_text!);
+			};
+
+			// Read, edit and write under the file's lock so a concurrent write is not lost
+			let diff: string;
+			try {
+				await waitForFileLock(filePath);
+				const journal = { operation: `memory_edit ${display} ${operation}`, sessionId: shortSessionId(ctx.sessionManager.getSessionId()), timestamp: nowTimestamp(config) };
+				const result = journaled(config, journal, () => withFileLock(filePath, () => {
+					const before = readFileSafe(filePath);
+					if (before === null) return null;
+					const after = apply(before);
+					if (after !== before) atomicWriteFileSync(filePath, after);
+					return unifiedDiff(before, after, display);
+				}));
+				if (result === null) {
+					return error(`${display} does not exist.`);
+				}
+				diff = result;
+			} catch (err) {
+				if (err instanceof EditError) {
+					return { content: [{ type: "text", text: `Error: ${err.message} ${display} was not changed.` }], details: { path: filePath } };
+				}
+				throw err;
+			}
+
+			if (!diff) {
+				return { content: [{ type: "text", text: `No change to ${display}.` }], details: { path: filePath } };
+			}
+			gitCommit(`edit: ${display} (${operation})`);
+			return {
+				content: [{ type: "text", text: `Edited ${display}:\n\n${diff}` }],
+				details: { path: filePath, target, operation },
+			};
+		},
+	});
+
+	// memory_history tool
+	pi.registerTool({
+		name: "memory_history",
+		label: "Memory History",
+		description: [
+			"Browse and restore past versions of memory files from the memory directory's git history (recorded by PI_AUTOCOMMIT). Actions:",
+			"- 'list': Commits that touched the target file, newest first.",
+			"- 'diff': The change a 'commit' made to the target file (or the whole commit when no target is given).",
+			"- 'restore': Put the target file back to its content at 'commit', recorded as a new commit.",
+			"Targets are as in memory_read: 'long_term', 'scratchpad', 'note' or 'file' (with filename), 'daily' (with date).",
+		].join("\n"),
+		parameters: Type.Object({
+			action: StringEnum(["list", "diff", "restore"] as const, {
 				description: "What to do",
 			}),
-			text: Type.Optional(
-				Type.String({ description: "Item text for add, or substring to match for done/undo" }),
+			target: Type.Optional(
+				StringEnum(["long_term", "scratchpad", "note", "daily", "file"] as const, {
+					description: "Which file. Required for list and restore.",
+				}),
+			),
+			filename: Type.Optional(
+				Type.String({ description: "Filename for 'note' and 'file' targets" }),
+			),
+			date: Type.Optional(
+				Type.String({ description: "Date for 'daily' target (YYYY-MM-DD). Default: today." }),
+			),
+			commit: Type.Optional(
+				Type.String({ description: "Commit hash (as shown by list) for diff and restore" }),
+			),
+			scope: Type.Optional(
+				StringEnum(["global", "project"] as const, {
+					description: "Global memory (default) or the current project's memory",
+				}),
+			),
+			limit: Type.Optional(
+				Type.Number({ description: "Max commits for list (default: 20)", default: 20 }),
 			),
 		}),
 		async execute(_toolCallId, params, _signal, _onUpdate, ctx) {
-			ensureDirs(config);
-			const { action, text } = params;
-			const sid = shortSessionId(ctx.sessionManager.getSessionId());
-			const ts = nowTimestamp();
+			const { action, target, filename, date, commit, scope, limit } = params;
+			const error = (message: string) => ({ content: [{ type: "text" as const, text: `Error: ${message}` }], details: {} });
 
-			const existing = readFileSafe(config.scratchpadFile) ?? "";
-			let items = parseScratchpad(existing);
+			if (!isGitRepo()) {
+				return error(`${config.memoryDir} is not a git repository, so there is no history. Run \`git init\` there and set PI_AUTOCOMMIT=1 to start recording it.`);
+			}
 
-			if (action === "list") {
-				if (items.length === 0) {
-					return { content: [{ type: "text", text: "Scratchpad is empty." }], details: {} };
+			let rel: string | undefined;
+			let filePath: string | undefined;
+			if (target) {
+				const unavailable = layerUnavailable(config, scope ?? "global");
+				if (unavailable) return error(unavailable);
+				const { config: mem } = layerConfig(config, scope ?? "global", ctx.cwd);
+				const file = targetFile(mem, target, { filename, date });
+				if (!file) {
+					return error(target === "daily" ? DAILY_DATE_ERROR : `'filename' is required for target '${target}'.`);
+				}
+				filePath = file.path;
+				rel = path.relative(config.memoryDir, file.path);
+				if (rel.startsWith("..") || path.isAbsolute(rel)) {
+					return error(`${file.path} is outside the memory directory, so it has no history there.`);
+				}
+			} else if (action !== "diff") {
+				return error(`'target' is required for ${action}.`);
+			}
+			if (action !== "list") {
+				if (!commit) {
+					return error(`'commit' is required for ${action}; use action 'list' to find one.`);
+				}
+				if (!isSafeRevision(commit)) {
+					return error(`"${commit}" is not a valid commit.`);
+				}
+			}
+
+			try {
+				if (action === "list") {
+					const entries = parseGitLog(git(["log", "--follow", `-n${Math.max(1, Math.floor(limit ?? 20))}`, `--format=${GIT_LOG_FORMAT}`, "--", rel!]));
+					if (entries.length === 0) {
+						return { content: [{ type: "text", text: `No commits touch ${rel}.` }], details: { path: rel, count: 0 } };
+					}
+					return {
+						content: [{ type: "text", text: `History of ${rel} (newest first):\n${formatGitLog(entries)}` }],
+						details: { path: rel, count: entries.length },
+					};
+				}
+
+				if (action === "diff") {
+					const args = ["show", "--format=commit %H%nDate: %aI%n%n    %s%n", commit!];
+					const out = git(rel ? [...args, "--", rel] : args);
+					return { content: [{ type: "text", text: out.trim() || `Commit ${commit} does not change ${rel}.` }], details: { commit, path: rel } };
+				}
+
+				// restore
+				let restored: string;
+				try {
+					restored = git(["show", `${commit}:./${rel!.split(path.sep).join("/")}`]);
+				} catch {
+					return error(`${rel} does not exist at ${commit}.`);
+				}
+				let before = "";
+				await waitForFileLock(filePath!);
+				const journal = { operation: `memory_history restore ${rel} ${commit}`, sessionId: shortSessionId(ctx.sessionManager.getSessionId()), timestamp: nowTimestamp(config) };
+				journaled(config, journal, () => updateFileSync(filePath!, (current) => {
+					before = current ?? "";
+					return restored;
+				}));
+				const diff = unifiedDiff(before, restored, rel!);
+				if (!diff) {
+					return { content: [{ type: "text", text: `${rel} already matches ${commit}.` }], details: { commit, path: rel } };
 				}
+				const short = git(["rev-parse", "--short", commit!]).trim();
+				git(["add", "--", rel!]);
+				git(["commit", "-m", `restore: ${rel} to ${short}`, "--no-verify", "--", rel!]);
 				return {
-					content: [{ type: "text", text: serializeScratchpad(items) }],
-					details: { count: items.length, open: items.filter((i) => !i.done).length },
+					content: [{ type: "text", text: `Restored ${rel} to ${short}:\n\n${diff}` }],
+					details: { commit: short, path: rel },
 				};
+			} catch (err) {
+				const stderr = (err as { stderr?: string }).stderr?.toString().trim();
+				return error(`git failed: ${stderr || (err as Error).message}`);
 			}
+		},
+	});
 
-			if (action === "add") {
-				if (!text) {
-					return { content: [{ type: "text", text: "Error: 'text' is required for add." }], details: {} };
-				}
-				items.push({ done: false, text, meta: `<!-- ${ts} [${sid}] -->` });
-				fs.writeFileSync(config.scratchpadFile, serializeScratchpad(items), "utf-8");
-				gitCommit(`scratchpad: add`);
+	// memory_undo tool
+	pi.registerTool({
+		name: "memory_undo",
+		label: "Memory Undo",
+		description: [
+			"Undo recent memory operations (memory_write, memory_edit, scratchpad, memory_history restore) from the write journal, without git.",
+			"By default reverts the single most recent operation. Pass 'count' to revert the last N, or 'session' to revert a session's operations (all of them unless 'count' is given).",
+			"Operations are reverted newest first; if a file was changed again since, undo stops there and leaves it alone.",
+			"Pass preview: true to see what would be reverted first.",
+		].join("\n"),
+		parameters: Type.Object({
+			count: Type.Optional(
+				Type.Number({ description: "How many operations to revert (default: 1, or all of the session's with 'session')" }),
+			),
+			session: Type.Optional(
+				Type.String({ description: "Only revert operations from this session id (the 8-character id in entry stamps)" }),
+			),
+			preview: Type.Optional(
+				Type.Boolean({ description: "List the operations that would be reverted without changing anything" }),
+			),
+		}),
+		async execute(_toolCallId, params, _signal, _onUpdate, ctx) {
+			const { count, session, preview } = params;
+			if (count !== undefined && (!Number.isInteger(count) || count < 1)) {
+				return { content: [{ type: "text", text: "Error: 'count' must be a positive integer." }], details: {} };
+			}
+			let candidates = undoableEntries(readJournal(config));
+			if (session) {
+				const sid = shortSessionId(session.trim());
+				candidates = candidates.filter(e => e.sessionId === sid);
+			}
+			const targets = candidates.slice(0, count ?? (session ? candidates.length : 1));
+			if (targets.length === 0) {
+				const whose = session ? ` from session ${shortSessionId(session.trim())}` : "";
+				return { content: [{ type: "text", text: `Nothing to undo${whose}.` }], details: { reverted: [] } };
+			}
+
+			const listing = (entries: typeof targets) => entries.map(e => `- ${formatJournalEntry(config, e)}`).join("\n");
+			if (preview) {
 				return {
-					content: [{ type: "text", text: `Added: - [ ] ${text}\n\n${serializeScratchpad(items)}` }],
-					details: { action, sessionId: sid, timestamp: ts },
+					content: [{ type: "text", text: `Would revert ${targets.length} operation(s), newest first:\n${listing(targets)}` }],
+					details: { preview: true, ids: targets.map(e => e.id) },
 				};
 			}
 
-			if (action === "done" || action === "undo") {
-				if (!text) {
-					return { content: [{ type: "text", text: `Error: 'text' is required for ${action}.` }], details: {} };
+			const { reverted, conflict } = undoJournalEntries(config, targets, {
+				sessionId: shortSessionId(ctx.sessionManager.getSessionId()),
+				timestamp: nowTimestamp(config),
+			});
+			if (reverted.length > 0) {
+				gitCommit(`undo: ${reverted.map(e => e.operation).join("; ")}`);
+			}
+			const parts: string[] = [];
+			if (reverted.length > 0) parts.push(`Reverted ${reverted.length} operation(s):\n${listing(reverted)}`);
+			if (conflict) {
+				parts.push(`Stopped: ${conflict}${reverted.length < targets.length ? ` ${targets.length - reverted.length} operation(s) were not reverted.` : ""}`);
+			}
+			return {
+				content: [{ type: "text", text: parts.join("\n\n") }],
+				details: { reverted: reverted.map(e => e.id), conflict },
+			};
+		},
+	});
+
+	// scratchpad tool
+	pi.registerTool({
+		name: "scratchpad",
+		label: "Scratchpad",
+		description: [
+			"Manage a checklist of things to fix later or keep in mind. Every item has a short id, shown in 'list'. Actions:",
+			"- 'add': Add a new unchecked item (- [ ] text). Optional 'priority' (p1-p3), 'due' (YYYY-MM-DD) and 'tags'.",
+			"  Pass 'parent' (id or substring) to add a subtask, or 'section' to file it under a '## Section' heading.",
+			"- 'done': Mark an item as done (- [x] text). Pass the item id, or a substring that matches exactly one open item.",
+			"  Set 'cascade' to also complete its subtasks.",
+			"- 'undo': Uncheck a done item back to open. Pass the item id, or a substring that matches exactly one done item.",
+			"- 'clear_done': Remove all checked items from the list (a done item with open subtasks is kept). They are archived, with their notes, under '## Completed' in the daily log.",
+			"  Cleared items are archived under '## Completed' in the daily log of the day they were completed.",
+			"- 'edit': Change an item's text ('new_text') and/or its priority, due date or tags. Pass the item id or substring as 'text'.",
+			"- 'remove': Delete one item without marking it done. Items with subtasks need 'cascade'.",
+			"- 'move': Move an item (with its subtasks) to 'position' — 'top', 'bottom' or a 1-based position among its siblings.",
+			"  Pass 'section' to move it into another section.",
+			"- 'bulk_add': Add several items at once from 'items'; 'parent'/'section' apply to all of them.",
+			"- 'list': Show all items with their ids. Optional 'sort' (position, priority, due) and filters 'tag', 'priority' (that level or higher), 'overdue'.",
+			"If a substring matches several items, nothing changes and the candidates are returned — retry with an id.",
+			"Pass scope 'project' to work on the current project's scratchpad, or 'repo' for the repository's shared one, instead of the global one.",
+		].join("\n"),
+		parameters: Type.Object({
+			action: StringEnum(["add", "done", "undo", "clear_done", "list", "edit", "remove", "move", "bulk_add"] as const, {
+				description: "What to do",
+			}),
+			text: Type.Optional(
+				Type.String({ description: "Item text for add, or item id / substring to match for done/undo/edit/remove/move" }),
+			),
+			new_text: Type.Optional(
+				Type.String({ description: "For edit: the replacement text" }),
+			),
+			position: Type.Optional(
+				Type.String({ description: "For move: 'top', 'bottom' or a 1-based position among the item's siblings" }),
+			),
+			items: Type.Optional(
+				Type.Array(Type.String(), { description: "For bulk_add: item texts; trailing '!p1 due:YYYY-MM-DD #tag' annotations are parsed" }),
+			),
+			priority: Type.Optional(
+				StringEnum(["p1", "p2", "p3"] as const, {
+					description: "For add: the item's priority. For list: only show items at this priority or higher.",
+				}),
+			),
+			due: Type.Optional(
+				Type.String({ description: "Due date for add (YYYY-MM-DD)" }),
+			),
+			tags: Type.Optional(
+				Type.Array(Type.String(), { description: "Tags for add, without '#'" }),
+			),
+			tag: Type.Optional(
+				Type.String({ description: "For list: only show items with this tag" }),
+			),
+			overdue: Type.Optional(
+				Type.Boolean({ description: "For list: only show open items past their due date" }),
+			),
+			sort: Type.Optional(
+				StringEnum(["position", "priority", "due"] as const, {
+					description: "For list: sort order. Default: 'position'.",
+				}),
+			),
+			parent: Type.Optional(
+				Type.String({ description: "For add/bulk_add: id or substring of the item to nest the new subtask under" }),
+			),
+			section: Type.Optional(
+				Type.String({ description: "For add/bulk_add/move: section heading to file the item under (created if missing)" }),
+			),
+			scope: Type.Optional(
+				StringEnum(["global", "project", "repo"] as const, {
+					description: "Global scratchpad (default), the current project's, or the repository's shared one",
+				}),
+			),
+			cascade: Type.Optional(
+				Type.Boolean({ description: "For done/undo/remove: also apply to the item's subtasks" }),
+			),
+		}),
+		async execute(_toolCallId, params, _signal, _onUpdate, ctx) {
+			const { action, text, new_text, position, items: bulkItems, priority, due, tags, tag, overdue, sort, parent, section, cascade, scope } = params;
+			const unavailable = layerUnavailable(config, scope ?? "global");
+			if (unavailable) {
+				return { content: [{ type: "text", text: `Error: ${unavailable}` }], details: {} };
+			}
+			const { config: pad, prefix } = layerConfig(config, scope ?? "global", ctx.cwd);
+			ensureDirs(pad);
+			const sid = shortSessionId(ctx.sessionManager.getSessionId());
+			const ts = nowTimestamp(config);
+
+			// Hold the lock from read to write so concurrent sessions don't drop each other's changes
+			const journal = { operation: `scratchpad ${prefix}${action}`, sessionId: sid, timestamp: ts };
+			await waitForFileLock(pad.scratchpadFile);
+			// Committed once the lock is released, so git never sees (or waits on) the lock file
+			let commitMessage: string | undefined;
+			const result = journaled(config, journal, () => withFileLock(pad.scratchpadFile, () => {
+				const existing = readFileSafe(pad.scratchpadFile) ?? "";
+				let items = parseScratchpad(existing);
+				const sections = parseScratchpadSections(existing);
+				const intros = parseScratchpadIntros(existing);
+				const renderList = () => scratchpadOutline(items, sections, { headingLevel: 2, ids: true }).join("\n");
+
+				// Files written before ids existed get them on first touch
+				if (assignItemIds(items)) {
+					atomicWriteFileSync(pad.scratchpadFile, serializeScratchpad(items, sections, intros));
 				}
-				const needle = text.toLowerCase();
-				const targetDone = action === "done";
-				let matched = false;
-				for (const item of items) {
-					if (item.done !== targetDone && item.text.toLowerCase().includes(needle)) {
-						item.done = targetDone;
-						matched = true;
-						break;
+
+				if (action === "list") {
+					if (items.length === 0) {
+						return { content: [{ type: "text", text: "Scratchpad is empty." }], details: {} };
+					}
+					if (!tag && !priority && !overdue && (sort ?? "position") === "position") {
+						return {
+							content: [{ type: "text", text: renderList() }],
+							details: { count: items.length, open: items.filter((i) => !i.done).length },
+						};
+					}
+					const shown = sortScratchpadItems(filterScratchpadItems(items, {
+						tag,
+						maxPriority: priority ? parseInt(priority.slice(1), 10) : undefined,
+						overdue,
+						today: todayStr(config),
+					}), sort ?? "position");
+					if (shown.length === 0) {
+						return { content: [{ type: "text", text: `No items match the filter (${items.length} total).` }], details: { count: items.length, shown: 0 } };
 					}
-				}
-				if (!matched) {
 					return {
-						content: [{ type: "text", text: `No matching ${targetDone ? "open" : "done"} item found for: "${text}"` }],
-						details: {},
+						content: [{ type: "text", text: formatScratchpadList(shown) }],
+						details: { count: items.length, open: items.filter((i) => !i.done).length, shown: shown.length },
 					};
 				}
-				fs.writeFileSync(config.scratchpadFile, serializeScratchpad(items), "utf-8");
-				gitCommit(`scratchpad: ${action}`);
-				return {
-					content: [{ type: "text", text: `Updated.\n\n${serializeScratchpad(items)}` }],
-					details: { action, sessionId: sid, timestamp: ts },
+
+				const error = (message: string) => ({ content: [{ type: "text" as const, text: `Error: ${message}` }], details: {} });
+				const save = (what: string) => {
+					atomicWriteFileSync(pad.scratchpadFile, serializeScratchpad(items, sections, intros));
+					commitMessage = prefix ? `scratchpad (${prefix.replace(/\/$/, "")}): ${what}` : `scratchpad: ${what}`;
 				};
-			}
+				const ambiguous = (ref: string, matches: ScratchpadItem[]) => ({
+					content: [{ type: "text" as const, text: `"${ref}" matches ${matches.length} items — nothing changed. Retry with an id:\n${formatScratchpadList(matches)}` }],
+					details: { action, candidates: matches.map(i => i.id) },
+				});
 
-			if (action === "clear_done") {
-				const before = items.length;
-				items = items.filter((i) => !i.done);
-				const removed = before - items.length;
-				fs.writeFileSync(config.scratchpadFile, serializeScratchpad(items), "utf-8");
-				gitCommit("scratchpad: clear_done");
-				return {
-					content: [{ type: "text", text: `Cleared ${removed} done item(s).\n\n${serializeScratchpad(items)}` }],
-					details: { action, removed },
+				if (due && !/^\d{4}-\d{2}-\d{2}$/.test(due)) {
+					return error(`'due' must be YYYY-MM-DD, got "${due}".`);
+				}
+				const badTag = tags?.map(t => t.replace(/^#/, "")).find(t => !/^[A-Za-z][\w-]*$/.test(t));
+				if (badTag !== undefined) {
+					return error(`tag "${badTag}" must start with a letter and contain only letters, digits, '_' or '-'.`);
+				}
+				const applyAnnotations = (item: ScratchpadItem) => {
+					if (priority) item.priority = parseInt(priority.slice(1), 10);
+					if (due) item.due = due;
+					if (tags?.length) item.tags = tags.map(t => t.replace(/^#/, ""));
 				};
-			}
 
-			return { content: [{ type: "text", text: `Unknown action: ${action}` }], details: {} };
+				if (action === "add" || action === "bulk_add") {
+					const texts = action === "add" ? (text ? [text] : []) : (bulkItems ?? []).filter(t => t.trim());
+					if (texts.length === 0) {
+						return error(action === "add" ? "'text' is required for add." : "'items' is required for bulk_add.");
+					}
+					let parentItem: ScratchpadItem | undefined;
+					if (parent) {
+						const parents = findScratchpadItems(items, parent);
+						if (parents.length === 0) {
+							return { content: [{ type: "text", text: `No item found for parent "${parent}".` }], details: { action } };
+						}
+						if (parents.length > 1) return ambiguous(parent, parents);
+						parentItem = parents[0];
+					}
+					const taken = new Set(items.map(i => i.id!));
+					const added: ScratchpadItem[] = [];
+					for (const raw of texts) {
+						const id = newItemId(taken);
+						taken.add(id);
+						const item = newScratchpadItem(raw, `<!-- ${ts} [${sid}] -->`, id);
+						applyAnnotations(item);
+						if (parentItem) {
+							insertSubtask(items, parentItem, item);
+						} else {
+							if (section?.trim()) {
+								item.section = section.trim();
+								if (!sections.includes(item.section)) sections.push(item.section);
+							}
+							items.push(item);
+						}
+						added.push(item);
+					}
+					save(action === "add" ? "add" : `bulk_add ${added.length}`);
+					const summary = action === "add"
+						? `Added: - [ ] ${itemText(added[0])} (id: ${added[0].id})`
+						: `Added ${added.length} item(s).`;
+					return {
+						content: [{ type: "text", text: `${summary}\n\n${renderList()}` }],
+						details: action === "add"
+							? { action, id: added[0].id, sessionId: sid, timestamp: ts }
+							: { action, ids: added.map(i => i.id), sessionId: sid, timestamp: ts },
+					};
+				}
+
+				if (action === "edit" || action === "remove" || action === "move") {
+					if (!text) {
+						return error(`'text' (item id or substring) is required for ${action}.`);
+					}
+					const matches = findScratchpadItems(items, text);
+					if (matches.length === 0) {
+						return { content: [{ type: "text", text: `No matching item found for: "${text}"` }], details: {} };
+					}
+					if (matches.length > 1) return ambiguous(text, matches);
+					const [item] = matches;
+
+					if (action === "remove") {
+						const removed = removeItem(items, item, cascade);
+						if (!removed) {
+							const count = subtreeEnd(items, items.indexOf(item)) - items.indexOf(item) - 1;
+							return error(`item ${item.id} has ${count} subtask(s); pass cascade to remove them too.`);
+						}
+						save("remove");
+						return {
+							content: [{ type: "text", text: `Removed ${removed.length} item(s): ${itemText(item)}\n\n${renderList()}` }],
+							details: { action, ids: removed.map(i => i.id), sessionId: sid, timestamp: ts },
+						};
+					}
+
+					if (action === "edit") {
+						if (!new_text?.trim() && !priority && !due && !tags?.length) {
+							return error("edit needs 'new_text' or a new priority, due date or tags.");
+						}
+						const before = itemText(item);
+						if (new_text?.trim()) item.text = new_text.trim();
+						applyAnnotations(item);
+						item.edited = `${ts} [${sid}]`;
+						save("edit");
+						return {
+							content: [{ type: "text", text: `Edited ${item.id}: ${before} \u2192 ${itemText(item)}\n\n${renderList()}` }],
+							details: { action, id: item.id, sessionId: sid, timestamp: ts },
+						};
+					}
+
+					// move
+					const target = section?.trim();
+					if (!position && !target) {
+						return error("move needs 'position' (top, bottom or a number) or 'section'.");
+					}
+					let where: MovePosition = "top";
+					if (position) {
+						const p = position.trim().toLowerCase();
+						if (p === "top" || p === "bottom") where = p;
+						else if (/^\d+$/.test(p) && parseInt(p, 10) >= 1) where = parseInt(p, 10);
+						else return error(`'position' must be 'top', 'bottom' or a positive number, got "${position}".`);
+					}
+					if (target && !sections.includes(target)) sections.push(target);
+					moveItem(items, item, where, target);
+					item.edited = `${ts} [${sid}]`;
+					save("move");
+					return {
+						content: [{ type: "text", text: `Moved ${item.id}.\n\n${renderList()}` }],
+						details: { action, id: item.id, sessionId: sid, timestamp: ts },
+					};
+				}
+
+				if (action === "done" || action === "undo") {
+					if (!text) {
+						return error(`'text' is required for ${action}.`);
+					}
+					const targetDone = action === "done";
+					const matches = findScratchpadItems(items, text, (i) => i.done !== targetDone);
+					if (matches.length === 0) {
+						return {
+							content: [{ type: "text", text: `No matching ${targetDone ? "open" : "done"} item found for: "${text}"` }],
+							details: {},
+						};
+					}
+					if (matches.length > 1) return ambiguous(text, matches);
+					const [item] = matches;
+					if (item.done === targetDone) {
+						return {
+							content: [{ type: "text", text: `Item ${item.id} is already ${targetDone ? "done" : "open"}: ${item.text}` }],
+							details: { action, id: item.id },
+						};
+					}
+					const index = items.indexOf(item);
+					const affected = cascade ? items.slice(index, subtreeEnd(items, index)) : [item];
+					for (const i of affected) {
+						if (i.done === targetDone) continue;
+						i.done = targetDone;
+						if (targetDone) i.completed = `${ts} [${sid}]`;
+						else delete i.completed;
+					}
+					save(action);
+					return {
+						content: [{ type: "text", text: `Updated.\n\n${renderList()}` }],
+						details: { action, id: item.id, affected: affected.length, sessionId: sid, timestamp: ts },
+					};
+				}
+
+				if (action === "clear_done") {
+					const { kept, removed: cleared } = partitionDone(items);
+					items = kept;
+					const removed = cleared.length;
+					// Keep a record of finished work in the daily log of the day it was completed
+					const archived = archiveCompletedItems(cleared, todayStr(config), config);
+					for (const [day, lines] of archived) {
+						const filePath = dailyPath(config.dailyDir, day);
+						updateFileSync(filePath, (current) => appendCompleted(current ?? "", lines));
+					}
+					save("clear_done");
+					const days = [...archived.keys()].sort();
+					const where = days.length > 0 ? ` Archived to ${days.map(d => `daily/${d}.md`).join(", ")}.` : "";
+					return {
+						content: [{ type: "text", text: `Cleared ${removed} done item(s).${where}\n\n${renderList()}` }],
+						details: { action, removed, archivedTo: days },
+					};
+				}
+
+				return { content: [{ type: "text", text: `Unknown action: ${action}` }], details: {} };
+			}));
+			if (commitMessage) gitCommit(commitMessage);
+			return result;
 		},
 	});
 
@@ -580,35 +1504,46 @@ export default function (pi: ExtensionAPI) {
 			"Read a memory file. Targets:",
 			"- 'long_term': Read MEMORY.md",
 			"- 'scratchpad': Read SCRATCHPAD.md",
-			"- 'daily': Read a specific day's log (default: today). Pass date as YYYY-MM-DD.",
+			"- 'daily': Read a specific day's log (default: today). Pass date as YYYY-MM-DD, or YYYY-Www / YYYY-MM for a weekly or monthly rollup.",
 			"- 'file': Read any file by name (e.g. 'SOUL.md'). Pass filename.",
 			"- 'note': Read a file from notes/ (e.g. 'lessons.md'). Pass filename.",
 			"- 'list': List all files in the memory directory.",
+			"Pass scope 'project' (the current project's memory) or 'repo' (the repository's shared .pi/memory) to read MEMORY.md, SCRATCHPAD.md, notes/ and files from that layer.",
 		].join("\n"),
 		parameters: Type.Object({
 			target: StringEnum(["long_term", "scratchpad", "daily", "file", "note", "list"] as const, {
 				description: "What to read",
 			}),
 			date: Type.Optional(
-				Type.String({ description: "Date for daily log (YYYY-MM-DD). Default: today." }),
+				Type.String({ description: "Date for daily log (YYYY-MM-DD), or YYYY-Www / YYYY-MM for a rollup. Default: today." }),
 			),
 			filename: Type.Optional(
 				Type.String({ description: "Filename for 'file' target (e.g. 'lessons.md', 'SOUL.md')" }),
 			),
+			scope: Type.Optional(
+				StringEnum(["global", "project", "repo"] as const, {
+					description: "Global memory (default), the current project's memory, or the repository's shared .pi/memory. Daily logs are always global.",
+				}),
+			),
 		}),
-		async execute(_toolCallId, params, _signal, _onUpdate, _ctx) {
+		async execute(_toolCallId, params, _signal, _onUpdate, ctx) {
 			ensureDirs(config);
-			const { target, date, filename } = params;
+			const { target, date, filename, scope } = params;
+			const unavailable = layerUnavailable(config, scope ?? "global");
+			if (unavailable) {
+				return { content: [{ type: "text", text: `Error: ${unavailable}` }], details: {} };
+			}
+			const { config: mem, prefix } = layerConfig(config, scope ?? "global", ctx.cwd);
 
 			if (target === "list") {
 				const sections: string[] = [];
 				try {
-					const rootFiles = fs.readdirSync(config.memoryDir).filter(f => f.endsWith(".md") || f.endsWith(".json")).sort();
-					if (rootFiles.length > 0) sections.push(`Files:\n${rootFiles.map(f => `- ${f}`).join("\n")}`);
+					const rootFiles = fs.readdirSync(mem.memoryDir).filter(f => f.endsWith(".md") || f.endsWith(".json")).sort();
+					if (rootFiles.length > 0) sections.push(`Files:\n${rootFiles.map(f => `- ${prefix}${f}`).join("\n")}`);
 				} catch {}
 				try {
-					const noteFiles = fs.readdirSync(config.notesDir).filter(f => f.endsWith(".md")).sort();
-					if (noteFiles.length > 0) sections.push(`Notes:\n${noteFiles.map(f => `- notes/${f}`).join("\n")}`);
+					const noteFiles = fs.readdirSync(mem.notesDir).filter(f => f.endsWith(".md")).sort();
+					if (noteFiles.length > 0) sections.push(`Notes:\n${noteFiles.map(f => `- ${prefix}notes/${f}`).join("\n")}`);
 				} catch {}
 				try {
 					const dailyFiles = fs.readdirSync(config.dailyDir).filter(f => f.endsWith(".md")).sort().reverse();
@@ -625,12 +1560,12 @@ export default function (pi: ExtensionAPI) {
 					return { content: [{ type: "text", text: "Error: 'filename' is required for target 'file'." }], details: {} };
 				}
 				const safe = path.basename(filename);
-				const filePath = path.join(config.memoryDir, safe);
+				const filePath = path.join(mem.memoryDir, safe);
 				const content = readFileSafe(filePath);
 				if (!content) {
-					return { content: [{ type: "text", text: `File not found: ${safe}` }], details: {} };
+					return { content: [{ type: "text", text: `File not found: ${prefix}${safe}` }], details: {} };
 				}
-				return { content: [{ type: "text", text: content }], details: { path: filePath, filename: safe } };
+				return { content: [{ type: "text", text: content }], details: { path: filePath, filename: `${prefix}${safe}` } };
 			}
 
 			if (target === "note") {
@@ -638,20 +1573,24 @@ export default function (pi: ExtensionAPI) {
 					return { content: [{ type: "text", text: "Error: 'filename' is required for target 'note'." }], details: {} };
 				}
 				const safe = path.basename(filename);
-				const filePath = path.join(config.notesDir, safe);
+				const filePath = path.join(mem.notesDir, safe);
 				const content = readFileSafe(filePath);
 				if (!content) {
-					return { content: [{ type: "text", text: `Note not found: notes/${safe}` }], details: {} };
+					return { content: [{ type: "text", text: `Note not found: ${prefix}notes/${safe}` }], details: {} };
 				}
-				return { content: [{ type: "text", text: content }], details: { path: filePath, filename: `notes/${safe}` } };
+				return { content: [{ type: "text", text: content }], details: { path: filePath, filename: `${prefix}notes/${safe}` } };
 			}
 
 			if (target === "daily") {
-				const d = date ?? todayStr();
-				const filePath = dailyPath(config.dailyDir, d);
+				const d = date ?? todayStr(config);
+				const file = targetFile(config, "daily", { date: d });
+				if (!file) {
+					return { content: [{ type: "text", text: `Error: ${DAILY_DATE_ERROR}` }], details: {} };
+				}
+				const filePath = file.path;
 				const content = readFileSafe(filePath);
 				if (!content) {
-					return { content: [{ type: "text", text: `No daily log for ${d}.` }], details: {} };
+					return { content: [{ type: "text", text: d.length === 10 ? `No daily log for ${d}.` : `No rollup for ${d}.` }], details: {} };
 				}
 				return {
 					content: [{ type: "text", text: content }],
@@ -660,24 +1599,24 @@ export default function (pi: ExtensionAPI) {
 			}
 
 			if (target === "scratchpad") {
-				const content = readFileSafe(config.scratchpadFile);
+				const content = readFileSafe(mem.scratchpadFile);
 				if (!content?.trim()) {
-					return { content: [{ type: "text", text: "SCRATCHPAD.md is empty or does not exist." }], details: {} };
+					return { content: [{ type: "text", text: `${prefix}SCRATCHPAD.md is empty or does not exist.` }], details: {} };
 				}
 				return {
 					content: [{ type: "text", text: content }],
-					details: { path: config.scratchpadFile },
+					details: { path: mem.scratchpadFile },
 				};
 			}
 
 			// long_term
-			const content = readFileSafe(config.memoryFile);
+			const content = readFileSafe(mem.memoryFile);
 			if (!content) {
-				return { content: [{ type: "text", text: "MEMORY.md is empty or does not exist." }], details: {} };
+				return { content: [{ type: "text", text: `${prefix}MEMORY.md is empty or does not exist.` }], details: {} };
 			}
 			return {
 				content: [{ type: "text", text: content }],
-				details: { path: config.memoryFile },
+				details: { path: mem.memoryFile },
 			};
 		},
 	});
@@ -688,21 +1627,63 @@ export default function (pi: ExtensionAPI) {
 		label: "Memory Search",
 		description: [
 			"Search across all memory files (MEMORY.md, SCRATCHPAD.md, daily logs, notes/, and any other .md files).",
-			"Matches filenames and file contents. Case-insensitive keyword search.",
-			"Returns matching files and lines with paths.",
+			"Matches filenames and file contents. Two modes:",
+			"- 'ranked' (default): results ranked by relevance (BM25), best matches first, with scores.",
+			"- 'substring': line-by-line match, in file order.",
+			"Query syntax (case-insensitive): terms are ANDed; \"quoted phrase\" matches literally;",
+			"-term excludes; 'a OR b' matches either side; /regex/ matches a pattern.",
+			"Filters: 'scope' limits areas (root, daily, notes; project = the current project's memory; repo = the repository's .pi/memory;",
+			"sessions = past transcripts, only searched when listed);",
+			"'since'/'until' bound dates (daily log date or entry timestamp); 'file' is a glob like 'notes/*.md'.",
+			"Returns matching files and lines grouped per file, with the enclosing heading and entry stamp.",
+			"Pass 'context_lines' to include surrounding lines ('N:' marks a hit, 'N-' a context line).",
 		].join("\n"),
 		parameters: Type.Object({
-			query: Type.String({ description: "Search query (case-insensitive substring match)" }),
+			query: Type.String({ description: "Search query, e.g. 'postgres migration', '\"trading bot\" -paper', 'redis OR memcached', '/v\\d+/'" }),
+			mode: Type.Optional(
+				StringEnum(["ranked", "substring"] as const, {
+					description: "Search mode. Default: 'ranked'.",
+				}),
+			),
+			scope: Type.Optional(
+				Type.Array(StringEnum(["root", "daily", "notes", "project", "repo", "sessions"] as const), {
+					description: "Areas to search. Default: root, daily, notes, project, repo. 'sessions' searches past session transcripts.",
+				}),
+			),
+			since: Type.Optional(
+				Type.String({ description: "Only entries on or after this date: YYYY-MM-DD, 'today', 'yesterday' or '<N>d' (N days ago)" }),
+			),
+			until: Type.Optional(
+				Type.String({ description: "Only entries on or before this date (same formats as 'since')" }),
+			),
+			file: Type.Optional(
+				Type.String({ description: "Glob on the file path, e.g. 'notes/*.md' or 'daily/2026-02-*'. Without a slash, matches the filename." }),
+			),
+			context_lines: Type.Optional(
+				Type.Number({ description: "Lines of context before and after each hit (default: 0)", default: 0 }),
+			),
 			max_results: Type.Optional(
 				Type.Number({ description: "Maximum results to return (default: 20)", default: 20 }),
 			),
 		}),
-		async execute(_toolCallId, params) {
+		async execute(_toolCallId, params, _signal, _onUpdate, ctx) {
 			ensureDirs(config);
-			const { query, max_results } = params;
+			const scoped = withSession(config, ctx.cwd);
+			const { query, mode, scope, since, until, file, context_lines, max_results } = params;
 			const limit = max_results ?? 20;
-
-			const result = searchMemory(config, query, limit);
+			const filters = { scope, since, until, file };
+
+			let result: SearchResult;
+			try {
+				result = mode === "substring"
+					? searchMemory(scoped, query, limit, filters)
+					: rankedSearch(scoped, query, limit, filters);
+			} catch (err) {
+				if (err instanceof QuerySyntaxError) {
+					return { content: [{ type: "text", text: `Error: invalid query: ${err.message}` }], details: { query } };
+				}
+				throw err;
+			}
 
 			if (result.fileMatches.length === 0 && result.lineResults.length === 0) {
 				return { content: [{ type: "text", text: `No results for "${query}".` }], details: {} };
@@ -713,13 +1694,162 @@ export default function (pi: ExtensionAPI) {
 				parts.push(`Files matching "${query}":\n${result.fileMatches.map(f => `- ${f}`).join("\n")}`);
 			}
 			if (result.lineResults.length > 0) {
-				parts.push(`Content matches:\n${result.lineResults.map(r => `${r.file}:${r.line}: ${r.text}`).join("\n")}`);
+				const groups = groupSearchHits(scoped, result.lineResults, Math.max(0, Math.floor(context_lines ?? 0)));
+				parts.push(`Content matches:\n\n${formatFileHits(groups)}`);
 			}
 
 			return {
 				content: [{ type: "text", text: parts.join("\n\n") }],
-				details: { query, fileMatches: result.fileMatches.length, lineMatches: result.lineResults.length },
+				details: { query, mode: mode ?? "ranked", fileMatches: result.fileMatches.length, lineMatches: result.lineResults.length },
 			};
 		},
 	});
+
+	// /memory-consolidate command
+	pi.registerCommand("memory-consolidate", {
+		description: "Dedupe and reorganize MEMORY.md with a model, then review the diff before applying (arg: project or repo)",
+		getArgumentCompletions: (prefix) => {
+			const layers = ["global", "project", "repo"].filter(l => l.startsWith(prefix.trim()));
+			return layers.length > 0 ? layers.map(l => ({ value: l, label: l })) : null;
+		},
+		handler: async (args, ctx) => {
+			const layer = args.trim() || "global";
+			if (layer !== "global" && layer !== "project" && layer !== "repo") {
+				ctx.ui.notify(`Unknown layer "${layer}"; use global, project or repo.`, "error");
+				return;
+			}
+			const unavailable = layerUnavailable(config, layer);
+			if (unavailable) {
+				ctx.ui.notify(`Cannot consolidate: ${unavailable}`, "error");
+				return;
+			}
+			modelRegistryRef = ctx.modelRegistry;
+			const { config: mem, prefix } = layerConfig(config, layer, ctx.cwd);
+			const display = `${prefix}MEMORY.md`;
+			const original = readFileSafe(mem.memoryFile);
+			if (!original?.trim()) {
+				ctx.ui.notify(`${display} is empty; nothing to consolidate.`, "info");
+				return;
+			}
+
+			ctx.ui.setWorkingMessage(`Consolidating ${display}...`);
+			let consolidated: string;
+			try {
+				consolidated = await consolidateWithLLM(original);
+			} catch (err) {
+				ctx.ui.notify(`Consolidation failed: ${(err as Error).message}`, "error");
+				return;
+			} finally {
+				ctx.ui.setWorkingMessage();
+			}
+			if (!consolidated) {
+				ctx.ui.notify("No model with an API key is available for consolidation.", "error");
+				return;
+			}
+
+			const sid = shortSessionId(ctx.sessionManager.getSessionId());
+			const ts = nowTimestamp(config);
+			const proposed = `<!-- last updated: ${ts} [${sid}] consolidated -->\n${consolidated}\n`;
+			const diff = unifiedDiff(original, proposed, display);
+			const proposal = writeProposal(mem, proposed, diff);
+
+			const { added, removed } = diffStat(diff);
+			const lines = diff.split("\n");
+			const shown = lines.length > 60 ? `${lines.slice(0, 60).join("\n")}\n... ${lines.length - 60} more lines in ${proposal.diff}` : diff;
+			const summary = `${original.split("\n").length} → ${proposed.split("\n").length} lines (+${added} −${removed})`;
+			if (!ctx.hasUI) {
+				ctx.ui.notify(`Proposed ${display}: ${summary}. Review ${proposal.diff} and run /memory-consolidate interactively to apply.`, "info");
+				return;
+			}
+			const ok = await ctx.ui.confirm(`Apply consolidated ${display}? ${summary}`, shown);
+			if (!ok) {
+				ctx.ui.notify(`Kept ${display} as is. The proposal is in ${proposal.file}.`, "info");
+				return;
+			}
+
+			// The user may have taken a while; don't clobber writes made in the meantime
+			await waitForFileLock(mem.memoryFile);
+			const applied = journaled(config, { operation: `memory-consolidate ${display}`, sessionId: sid, timestamp: ts }, () =>
+				withFileLock(mem.memoryFile, () => {
+					if (readFileSafe(mem.memoryFile) !== original) return false;
+					atomicWriteFileSync(mem.memoryFile, proposed);
+					return true;
+				}));
+			if (!applied) {
+				ctx.ui.notify(`${display} changed while you were reviewing; run /memory-consolidate again. The proposal is in ${proposal.file}.`, "warning");
+				return;
+			}
+			fs.rmSync(proposal.file, { force: true });
+			fs.rmSync(proposal.diff, { force: true });
+			gitCommit(`memory: ${prefix}consolidate`);
+			ctx.ui.notify(`Consolidated ${display} (${summary}). memory_undo restores the previous version.`, "info");
+		},
+	});
+
+	// memory_costs tool
+	pi.registerTool({
+		name: "memory_costs",
+		label: "Memory Costs",
+		description: [
+			"Report model cost and token usage from pi session transcripts over a date range.",
+			"Broken down by day, project (session cwd), provider/model and parent vs sub-agent sessions, with input, output and cache token counts.",
+			"Dates accept YYYY-MM-DD, 'today', 'yesterday' or '<N>d' (N days ago). Default: the last 7 days.",
+		].join("\n"),
+		parameters: Type.Object({
+			since: Type.Optional(
+				Type.String({ description: "First day of the range (default: '7d')" }),
+			),
+			until: Type.Optional(
+				Type.String({ description: "Last day of the range (default: 'today')" }),
+			),
+			group_by: Type.Optional(
+				Type.Array(StringEnum(["day", "project", "model", "kind"] as const), {
+					description: "Breakdowns to include (default: all). 'kind' splits parent and sub-agent sessions.",
+				}),
+			),
+			project: Type.Optional(
+				Type.String({ description: "Only sessions whose cwd matches this glob (a directory also covers everything below it)" }),
+			),
+			format: Type.Optional(
+				StringEnum(["markdown", "json"] as const, { description: "Markdown tables (default) or JSON" }),
+			),
+		}),
+		async execute(_toolCallId, params, _signal, _onUpdate, _ctx) {
+			const { since, until, group_by, project, format } = params;
+			try {
+				const { text, report } = await costReport({ since, until, groupBy: group_by, project, format });
+				return { content: [{ type: "text", text }], details: { since: report.since, until: report.until, cost: report.totals.cost, sessions: report.totals.sessions } };
+			} catch (err) {
+				if (err instanceof CostReportError) {
+					return { content: [{ type: "text", text: `Error: ${err.message}` }], details: {} };
+				}
+				throw err;
+			}
+		},
+	});
+
+	// /memory-costs command — shown as a widget so the report stays out of the model's context
+	pi.registerCommand("memory-costs", {
+		description: "Cost and token report: /memory-costs [since] [until] [--json], dates as YYYY-MM-DD, today, yesterday or <N>d",
+		handler: async (args, ctx) => {
+			const words = args.split(/\s+/).filter(Boolean);
+			const json = words.includes("--json");
+			const [since, until] = words.filter(w => w !== "--json");
+			try {
+				const { text } = await costReport({ since, until, format: json ? "json" : "markdown" });
+				if (!ctx.hasUI) {
+					ctx.ui.notify(text, "info");
+					return;
+				}
+				const content = json ? `\`\`\`json\n${text}\n\`\`\`` : `## Costs\n\n${text}`;
+				ctx.ui.setWidget("memory-costs", () => new Markdown(content, 1, 0, getMarkdownTheme()));
+			} catch (err) {
+				if (err instanceof CostReportError) {
+					ctx.ui.notify(err.message, "error");
+					return;
+				}
+				throw err;
+			}
+		},
+	});
 }
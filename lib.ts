@@ -5,29 +5,74 @@
 
 import * as fs from "node:fs";
 import * as path from "node:path";
+import * as os from "node:os";
 import { createReadStream } from "node:fs";
+import { createHash, randomBytes } from "node:crypto";
 import { createInterface } from "node:readline";
+import { setTimeout as sleep } from "node:timers/promises";
 
 // --- Config ---
 
+/** Rough chars-per-token ratio used to convert PI_CONTEXT_BUDGET (tokens) into characters. */
+export const CHARS_PER_TOKEN = 4;
+
 export interface MemoryConfig {
 	memoryDir: string;
 	memoryFile: string;
 	scratchpadFile: string;
 	dailyDir: string;
 	notesDir: string;
+	/** pi's session transcripts (`<encoded-cwd>/<id>.jsonl`). */
+	sessionsDir: string;
 	contextFiles: string[];
 	autocommit: boolean;
+	/** Max characters of injected memory context. 0 = unlimited. */
+	contextBudget: number;
+	/** IANA zone used for day boundaries and timestamps. */
+	timezone: string;
+	/** Local hour (0-23) at which a new daily log starts. */
+	rolloverHour: number;
+	/** Whether repo-local `.pi/memory` directories are read at all. */
+	repoMemory: boolean;
+	/** Extract notes from messages about to be compacted into the daily log and scratchpad. */
+	compactionFlush: boolean;
+	/** `provider/model-id` used for the compaction flush; the dashboard's model when unset. */
+	flushModel?: string;
+	/** Append a summary of each finished session to the daily log. */
+	sessionSummaries: boolean;
+	/** Globs on a session's cwd; when non-empty, only matching sessions appear on the dashboard. */
+	sessionInclude: string[];
+	/** Globs on a session's cwd to leave off the dashboard (temp directories by default). */
+	sessionExclude: string[];
+	/** Project of the current session, set per call with `withSession`. */
+	project?: ProjectInfo;
+	/** Repo-local memory directory of the session's cwd, set by `buildConfig` and `withSession`. */
+	repoMemoryDir?: string;
 }
 
-export function buildConfig(env: Record<string, string | undefined> = process.env): MemoryConfig {
+export function buildConfig(env: Record<string, string | undefined> = process.env, cwd: string = process.cwd()): MemoryConfig {
 	const memoryDir = env.PI_MEMORY_DIR ?? path.join(env.HOME ?? "~", ".pi", "agent", "memory");
 	const dailyDir = env.PI_DAILY_DIR ?? path.join(memoryDir, "daily");
+	const sessionsDir = env.PI_SESSIONS_DIR ?? path.join(env.HOME ?? "~", ".pi", "agent", "sessions");
 	const contextFiles = (env.PI_CONTEXT_FILES ?? "")
 		.split(",")
 		.map(f => f.trim())
 		.filter(Boolean);
 	const autocommit = env.PI_AUTOCOMMIT === "1" || env.PI_AUTOCOMMIT === "true";
+	const budgetTokens = parseInt(env.PI_CONTEXT_BUDGET ?? "", 10);
+	const contextBudget = budgetTokens > 0 ? budgetTokens * CHARS_PER_TOKEN : 0;
+	const timezone = env.PI_TIMEZONE && isValidTimezone(env.PI_TIMEZONE) ? env.PI_TIMEZONE : systemTimezone();
+	const rolloverRaw = parseInt(env.PI_DAY_ROLLOVER_HOUR ?? "", 10);
+	const rolloverHour = rolloverRaw >= 0 && rolloverRaw <= 23 ? rolloverRaw : 0;
+	const repoMemory = env.PI_REPO_MEMORY !== "0" && env.PI_REPO_MEMORY !== "false";
+	const repoMemoryDir = repoMemory ? findRepoMemoryDir(cwd) ?? undefined : undefined;
+	const compactionFlush = env.PI_COMPACTION_FLUSH === "1" || env.PI_COMPACTION_FLUSH === "true";
+	const flushModel = env.PI_FLUSH_MODEL?.includes("/") ? env.PI_FLUSH_MODEL : undefined;
+	const sessionSummaries = env.PI_SESSION_SUMMARY !== "0" && env.PI_SESSION_SUMMARY !== "false";
+	const patterns = (value: string) => value.split(",").map(p => p.trim()).filter(Boolean)
+		.map(p => p.startsWith("~/") && env.HOME ? path.join(env.HOME, p.slice(2)) : p);
+	const sessionInclude = patterns(env.PI_SESSIONS_INCLUDE ?? "");
+	const sessionExclude = env.PI_SESSIONS_EXCLUDE === undefined ? defaultSessionExcludes() : patterns(env.PI_SESSIONS_EXCLUDE);
 
 	return {
 		memoryDir,
@@ -35,25 +80,114 @@ export function buildConfig(env: Record<string, string | undefined> = process.en
 		scratchpadFile: path.join(memoryDir, "SCRATCHPAD.md"),
 		dailyDir,
 		notesDir: path.join(memoryDir, "notes"),
+		sessionsDir,
 		contextFiles,
 		autocommit,
+		contextBudget,
+		timezone,
+		rolloverHour,
+		repoMemory,
+		repoMemoryDir,
+		compactionFlush,
+		flushModel,
+		sessionSummaries,
+		sessionInclude,
+		sessionExclude,
 	};
 }
 
 // --- Date/time helpers ---
 
-export function todayStr(): string {
-	return new Date().toISOString().slice(0, 10);
+export interface DayOptions {
+	timezone?: string;
+	rolloverHour?: number;
+}
+
+export function systemTimezone(): string {
+	return Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC";
+}
+
+export function isValidTimezone(timezone: string): boolean {
+	try {
+		new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+interface ZonedParts {
+	year: number;
+	month: number;
+	day: number;
+	hour: number;
+	minute: number;
+	second: number;
+	/** Offset from UTC in minutes (e.g. -420 for UTC-7). */
+	offset: number;
+}
+
+function zonedParts(date: Date, timezone: string): ZonedParts {
+	const fmt = new Intl.DateTimeFormat("en-US", {
+		timeZone: timezone,
+		hourCycle: "h23",
+		year: "numeric", month: "2-digit", day: "2-digit",
+		hour: "2-digit", minute: "2-digit", second: "2-digit",
+	});
+	const parts: Record<string, number> = {};
+	for (const p of fmt.formatToParts(date)) {
+		if (p.type !== "literal") parts[p.type] = parseInt(p.value, 10);
+	}
+	const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+	const offset = Math.round((asUtc - Math.floor(date.getTime() / 1000) * 1000) / 60_000);
+	return { year: parts.year, month: parts.month, day: parts.day, hour: parts.hour, minute: parts.minute, second: parts.second, offset };
+}
+
+const pad = (n: number, width = 2) => String(n).padStart(width, "0");
+
+function formatDate(year: number, month: number, day: number): string {
+	return `${pad(year, 4)}-${pad(month)}-${pad(day)}`;
 }
 
-export function yesterdayStr(): string {
-	const d = new Date();
-	d.setDate(d.getDate() - 1);
+function formatOffset(offsetMinutes: number): string {
+	const sign = offsetMinutes < 0 ? "-" : "+";
+	const abs = Math.abs(offsetMinutes);
+	return `${sign}${pad(Math.floor(abs / 60))}:${pad(abs % 60)}`;
+}
+
+/** Shift a YYYY-MM-DD string by whole calendar days. */
+export function addDays(date: string, days: number): string {
+	const d = new Date(`${date}T00:00:00Z`);
+	d.setUTCDate(d.getUTCDate() + days);
 	return d.toISOString().slice(0, 10);
 }
 
-export function nowTimestamp(): string {
-	return new Date().toISOString().replace("T", " ").replace(/\.\d+Z$/, "");
+/**
+ * The daily-log date for `now` in the configured zone. Before `rolloverHour`
+ * local time, the previous day's log is still current.
+ */
+export function todayStr(opts: DayOptions = {}, now: Date = new Date()): string {
+	const shifted = new Date(now.getTime() - (opts.rolloverHour ?? 0) * 60 * 60 * 1000);
+	const p = zonedParts(shifted, opts.timezone ?? systemTimezone());
+	return formatDate(p.year, p.month, p.day);
+}
+
+export function yesterdayStr(opts: DayOptions = {}, now: Date = new Date()): string {
+	return addDays(todayStr(opts, now), -1);
+}
+
+/** Local wall-clock time with its UTC offset, e.g. `2026-02-18 19:04:11-07:00`. */
+export function nowTimestamp(opts: DayOptions = {}, now: Date = new Date()): string {
+	const p = zonedParts(now, opts.timezone ?? systemTimezone());
+	return `${formatDate(p.year, p.month, p.day)} ${pad(p.hour)}:${pad(p.minute)}:${pad(p.second)}${formatOffset(p.offset)}`;
+}
+
+/** Parse a `YYYY-MM-DD HH:MM:SS±HH:MM` stamp (as written by nowTimestamp) back into a Date. */
+export function parseTimestamp(stamp: string): Date | undefined {
+	const m = stamp.match(/(\d{4}-\d{2}-\d{2}) (\d{2}:\d{2}:\d{2})([+-]\d{2}:\d{2}|Z)?/);
+	if (!m) return undefined;
+	const date = new Date(`${m[1]}T${m[2]}${m[3] ?? "Z"}`);
+	return isNaN(date.getTime()) ? undefined : date;
 }
 
 export function shortSessionId(sessionId: string): string {
@@ -70,235 +204,3114 @@ export function readFileSafe(filePath: string): string | null {
 	}
 }
 
+/** `existing` with a stamped entry appended after a blank line. */
+export function appendEntry(existing: string | null, entry: string): string {
+	const current = existing ?? "";
+	return current + (current.trim() ? "\n\n" : "") + entry;
+}
+
 export function dailyPath(dailyDir: string, date: string): string {
 	return path.join(dailyDir, `${date}.md`);
 }
 
+export type MemoryTarget = "long_term" | "scratchpad" | "note" | "daily" | "file";
+
+/** Shown when a tool's `date` is not a day, ISO week or month. */
+export const DAILY_DATE_ERROR = "'date' must be YYYY-MM-DD, or YYYY-Www / YYYY-MM for a weekly or monthly rollup.";
+
+/**
+ * The file a tool's `target` refers to, and its display name relative to the
+ * layer's directory. Null when `note`/`file` come without a filename, or
+ * `daily` with a date that isn't one of its formats (so it can't name a
+ * path outside daily/).
+ */
+export function targetFile(config: MemoryConfig, target: MemoryTarget, opts: { filename?: string; date?: string } = {}): { path: string; name: string } | null {
+	if (target === "long_term") return { path: config.memoryFile, name: "MEMORY.md" };
+	if (target === "scratchpad") return { path: config.scratchpadFile, name: "SCRATCHPAD.md" };
+	if (target === "daily") {
+		const date = opts.date ?? todayStr(config);
+		// A week (YYYY-Www) or month (YYYY-MM) names that period's rollup
+		const rollup = /^\d{4}-W\d{2}$/.test(date) ? "weekly" : /^\d{4}-\d{2}$/.test(date) ? "monthly" : null;
+		if (rollup) return { path: path.join(config.dailyDir, rollup, `${date}.md`), name: `daily/${rollup}/${date}.md` };
+		if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) return null;
+		return { path: dailyPath(config.dailyDir, date), name: `daily/${date}.md` };
+	}
+	if (!opts.filename) return null;
+	const safe = path.basename(opts.filename);
+	return target === "note"
+		? { path: path.join(config.notesDir, safe), name: `notes/${safe}` }
+		: { path: path.join(config.memoryDir, safe), name: safe };
+}
+
 export function ensureDirs(config: MemoryConfig): void {
 	fs.mkdirSync(config.memoryDir, { recursive: true });
 	fs.mkdirSync(config.dailyDir, { recursive: true });
 	fs.mkdirSync(config.notesDir, { recursive: true });
+	ensureGitignore(config.memoryDir, MEMORY_GITIGNORE);
 }
 
-// --- Scratchpad ---
+/** Lock files and in-flight temp files of concurrent sessions must never reach a PI_AUTOCOMMIT commit. */
+const MEMORY_GITIGNORE = ["*.lock", ".*.tmp"];
 
-export interface ScratchpadItem {
-	done: boolean;
-	text: string;
-	meta: string;
+/** Add any of `patterns` missing from `dir`/.gitignore, keeping what the user wrote there. */
+function ensureGitignore(dir: string, patterns: string[]): void {
+	const file = path.join(dir, ".gitignore");
+	const current = readFileSafe(file) ?? "";
+	const lines = new Set(current.split("\n").map(l => l.trim()));
+	const missing = patterns.filter(p => !lines.has(p));
+	if (missing.length === 0) return;
+	const sep = current && !current.endsWith("\n") ? "\n" : "";
+	fs.appendFileSync(file, `${sep}${missing.join("\n")}\n`, "utf-8");
 }
 
-export function parseScratchpad(content: string): ScratchpadItem[] {
-	const items: ScratchpadItem[] = [];
-	const lines = content.split("\n");
-	for (let i = 0; i < lines.length; i++) {
-		const line = lines[i];
-		const match = line.match(/^- \[([ xX])\] (.+)$/);
-		if (match) {
-			let meta = "";
-			if (i > 0 && lines[i - 1].match(/^<!--.*-->$/)) {
-				meta = lines[i - 1];
-			}
-			items.push({
-				done: match[1].toLowerCase() === "x",
-				text: match[2],
-				meta,
-			});
-		}
+// --- Locking and atomic writes ---
+
+/** Raised when a memory file stays locked by another session past the timeout. */
+export class FileLockError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = "FileLockError";
 	}
-	return items;
 }
 
-export function serializeScratchpad(items: ScratchpadItem[]): string {
-	const lines: string[] = ["# Scratchpad", ""];
-	for (const item of items) {
-		if (item.meta) {
-			lines.push(item.meta);
-		}
-		const checkbox = item.done ? "[x]" : "[ ]";
-		lines.push(`- ${checkbox} ${item.text}`);
-	}
-	return lines.join("\n") + "\n";
+export interface LockOptions {
+	/** Give up waiting after this many ms. Default: 250 for withFileLock, 5000 for waitForFileLock. */
+	timeoutMs?: number;
+	/** A lock older than this many ms is presumed abandoned. Default: 30000. */
+	staleMs?: number;
 }
 
-// --- Memory context builder ---
+const LOCK_RETRY_MS = 10;
+/** Synchronous waits block the event loop (and the TUI), so they give up quickly. */
+const LOCK_SYNC_TIMEOUT_MS = 250;
+const LOCK_ASYNC_TIMEOUT_MS = 5000;
+const sleepCell = new Int32Array(new SharedArrayBuffer(4));
 
-export function buildMemoryContext(config: MemoryConfig): string {
-	ensureDirs(config);
-	const sections: string[] = [];
+function sleepSync(ms: number): void {
+	Atomics.wait(sleepCell, 0, 0, ms);
+}
 
-	for (const fileName of config.contextFiles) {
-		const filePath = path.join(config.memoryDir, fileName);
-		const content = readFileSafe(filePath);
-		if (content?.trim()) {
-			sections.push(`## ${fileName}\n\n${content.trim()}`);
-		}
-	}
+export function lockPath(filePath: string): string {
+	return `${filePath}.lock`;
+}
 
-	const longTerm = readFileSafe(config.memoryFile);
-	if (longTerm?.trim()) {
-		sections.push(`## MEMORY.md (long-term)\n\n${longTerm.trim()}`);
+/**
+ * The lock file's token if it was left behind: its owner is a dead process
+ * on this host, or it is older than `staleMs`. Null if it is live or gone.
+ */
+function staleLockToken(lock: string, staleMs: number): string | null {
+	let token: string;
+	let mtimeMs: number;
+	try {
+		token = fs.readFileSync(lock, "utf-8");
+		mtimeMs = fs.statSync(lock).mtimeMs;
+	} catch {
+		return null;
+	}
+	const [pid, host] = token.split(" ");
+	if (host === os.hostname() && parseInt(pid, 10) > 0) {
+		try {
+			process.kill(parseInt(pid, 10), 0);
+		} catch (err) {
+			if ((err as NodeJS.ErrnoException).code === "ESRCH") return token;
+		}
 	}
+	return Date.now() - mtimeMs > staleMs ? token : null;
+}
 
-	const scratchpad = readFileSafe(config.scratchpadFile);
-	if (scratchpad?.trim()) {
-		const openItems = parseScratchpad(scratchpad).filter((i) => !i.done);
-		if (openItems.length > 0) {
-			sections.push(`## SCRATCHPAD.md (working context)\n\n${serializeScratchpad(openItems)}`);
+/**
+ * Wait without blocking the event loop until `filePath` is unlocked (or its
+ * lock is stale), so the synchronous withFileLock that follows rarely has to
+ * wait itself. Async callers such as tool handlers call this first. Throws
+ * FileLockError if another session keeps holding the lock.
+ */
+export async function waitForFileLock(filePath: string, opts: LockOptions = {}): Promise<void> {
+	const lock = lockPath(filePath);
+	const deadline = Date.now() + (opts.timeoutMs ?? LOCK_ASYNC_TIMEOUT_MS);
+	while (fs.existsSync(lock) && staleLockToken(lock, opts.staleMs ?? 30_000) === null) {
+		if (Date.now() >= deadline) {
+			throw new FileLockError(`${path.basename(filePath)} is locked by another session; try again shortly.`);
 		}
+		await sleep(LOCK_RETRY_MS + Math.floor(Math.random() * LOCK_RETRY_MS));
 	}
+}
 
-	const today = todayStr();
-	const yesterday = yesterdayStr();
+/**
+ * Run `fn` while holding an advisory `<file>.lock` (created exclusively and
+ * holding `pid host nonce`). Locks left by dead processes or older than
+ * `staleMs` are broken. `fn` must be synchronous, and must not lock the same
+ * file again. Waiting blocks the event loop, so it gives up after 250 ms by
+ * default; async callers wait with waitForFileLock first.
+ */
+export function withFileLock<T>(filePath: string, fn: () => T, opts: LockOptions = {}): T {
+	const lock = lockPath(filePath);
+	const token = `${process.pid} ${os.hostname()} ${randomBytes(4).toString("hex")}`;
+	const deadline = Date.now() + (opts.timeoutMs ?? LOCK_SYNC_TIMEOUT_MS);
+	fs.mkdirSync(path.dirname(filePath), { recursive: true });
 
-	const todayContent = readFileSafe(dailyPath(config.dailyDir, today));
-	if (todayContent?.trim()) {
-		sections.push(`## Daily log: ${today} (today)\n\n${todayContent.trim()}`);
+	while (true) {
+		try {
+			fs.writeFileSync(lock, token, { flag: "wx" });
+			break;
+		} catch (err) {
+			if ((err as NodeJS.ErrnoException).code !== "EEXIST") throw err;
+		}
+		const stale = staleLockToken(lock, opts.staleMs ?? 30_000);
+		// Only remove the lock we judged stale, not one a faster waiter just took
+		if (stale !== null && readFileSafe(lock) === stale) {
+			fs.rmSync(lock, { force: true });
+			continue;
+		}
+		if (Date.now() >= deadline) {
+			throw new FileLockError(`${path.basename(filePath)} is locked by another session; try again shortly.`);
+		}
+		sleepSync(LOCK_RETRY_MS + Math.floor(Math.random() * LOCK_RETRY_MS));
 	}
 
-	const yesterdayContent = readFileSafe(dailyPath(config.dailyDir, yesterday));
-	if (yesterdayContent?.trim()) {
-		sections.push(`## Daily log: ${yesterday} (yesterday)\n\n${yesterdayContent.trim()}`);
+	try {
+		return fn();
+	} finally {
+		if (readFileSafe(lock) === token) fs.rmSync(lock, { force: true });
 	}
+}
 
-	if (sections.length === 0) {
-		return "";
+/** Write via a temp file in the same directory and rename, so readers never see a partial file. */
+export function atomicWriteFileSync(filePath: string, content: string): void {
+	recordWrite(filePath, content);
+	writeViaRename(filePath, content);
+}
+
+function writeViaRename(filePath: string, content: string): void {
+	const tmp = path.join(path.dirname(filePath), `.${path.basename(filePath)}.${process.pid}.${randomBytes(4).toString("hex")}.tmp`);
+	const fd = fs.openSync(tmp, "w");
+	try {
+		fs.writeSync(fd, content);
+		fs.fsyncSync(fd);
+	} finally {
+		fs.closeSync(fd);
+	}
+	try {
+		fs.renameSync(tmp, filePath);
+	} catch (err) {
+		fs.rmSync(tmp, { force: true });
+		throw err;
 	}
+}
 
-	return `# Memory\n\n${sections.join("\n\n---\n\n")}`;
+/**
+ * Locked read-modify-write: `update` receives the current content (null if
+ * the file is missing) and returns the new content, which is written atomically.
+ */
+export function updateFileSync(filePath: string, update: (current: string | null) => string, opts: LockOptions = {}): string {
+	return withFileLock(filePath, () => {
+		const next = update(readFileSafe(filePath));
+		atomicWriteFileSync(filePath, next);
+		return next;
+	}, opts);
 }
 
-// --- Session scanner ---
+// --- Write journal ---
 
-const LOOKBACK_MS = 24 * 60 * 60 * 1000;
+/**
+ * Every memory write is journaled to `<memoryDir>/.journal/journal.jsonl`,
+ * with file contents stored once per hash under `.journal/blobs/`, so
+ * memory_undo can revert operations without git.
+ */
 
-export interface SessionInfo {
-	file: string;
+export interface JournalChange {
+	/** Absolute path of the file. */
+	path: string;
+	/** Blob hash of the content before the operation; null when the file did not exist. */
+	before: string | null;
+	/** Blob hash of the content the operation left; null when it deleted the file. */
+	after: string | null;
+}
+
+export interface JournalEntry {
+	id: string;
 	timestamp: string;
-	title: string;
-	isChild: boolean;
-	parentSession?: string;
-	cwd: string;
-	cost: number;
+	sessionId: string;
+	/** Tool and action, e.g. `memory_write long_term append`. */
+	operation: string;
+	changes: JournalChange[];
+	/** For memory_undo entries: ids of the entries it reverted. */
+	undoes?: string[];
 }
 
-export async function scanSession(filePath: string): Promise<SessionInfo | null> {
-	try {
-		const cutoffTime = Date.now() - LOOKBACK_MS;
-		const rl = createInterface({ input: createReadStream(filePath), crlfDelay: Infinity });
-		let lineNum = 0;
-		let header: any = null;
-		let title = "";
-		let totalCost = 0;
+interface Recorder {
+	before: Map<string, string | null>;
+	after: Map<string, string | null>;
+}
 
-		for await (const line of rl) {
-			lineNum++;
-			if (lineNum === 1) {
-				try {
-					header = JSON.parse(line);
-				} catch { return null; }
-				if (header.timestamp && new Date(header.timestamp).getTime() < cutoffTime) {
-					rl.close();
-					return null;
-				}
-				continue;
-			}
-			try {
-				const entry = JSON.parse(line);
-				if (entry.type === "session_info" && entry.name) {
-					title = entry.name;
-				}
-				if (entry.type === "message" && entry.message?.role === "assistant" && entry.message?.usage?.cost?.total) {
-					totalCost += entry.message.usage.cost.total;
-				}
-			} catch { continue; }
-		}
+/** Collects writes for the journaled() call in progress; writes are synchronous, so one suffices. */
+let activeRecorder: Recorder | null = null;
 
-		if (!header?.timestamp) return null;
+function recordWrite(filePath: string, content: string | null): void {
+	if (!activeRecorder) return;
+	if (!activeRecorder.before.has(filePath)) activeRecorder.before.set(filePath, readFileSafe(filePath));
+	activeRecorder.after.set(filePath, content);
+}
 
-		if (!title) {
-			const rl2 = createInterface({ input: createReadStream(filePath), crlfDelay: Infinity });
-			for await (const line of rl2) {
-				try {
-					const entry = JSON.parse(line);
-					if (entry.type === "message" && entry.message?.role === "user") {
-						const content = entry.message.content;
-						if (typeof content === "string") {
-							title = content.slice(0, 80);
-						} else if (Array.isArray(content)) {
-							const textPart = content.find((c: any) => c.type === "text");
-							if (textPart) title = textPart.text.slice(0, 80);
-						}
-						break;
-					}
-				} catch { continue; }
-			}
-		}
+/** Delete a file, journaling the deletion when inside journaled(). */
+export function removeFileSync(filePath: string): void {
+	recordWrite(filePath, null);
+	fs.rmSync(filePath, { force: true });
+}
 
-		return {
-			file: filePath,
-			timestamp: header.timestamp,
-			title: title || "(untitled)",
-			isChild: !!header.parentSession,
-			parentSession: header.parentSession || undefined,
-			cwd: header.cwd || "",
-			cost: totalCost,
-		};
-	} catch { return null; }
+export function journalDir(config: MemoryConfig): string {
+	return path.join(config.memoryDir, ".journal");
 }
 
-export function isHousekeeping(title: string): boolean {
-	const lower = title.toLowerCase();
-	const patterns = [
-		/^(clear|review|read)\s+(done|scratchpad|today|daily)/,
-		/^-\s+(no done|scratchpad|cleared|reviewed|task is)/,
-		/^scratchpad\s+(content|management|maintenance|reviewed|items)/,
-		/^\(untitled\)$/,
-		/^\/\w+$/,
-		/^write daily log/,
-	];
-	return patterns.some(p => p.test(lower));
+function journalFile(config: MemoryConfig): string {
+	return path.join(journalDir(config), "journal.jsonl");
 }
 
-// --- Search ---
+function blobHash(content: string): string {
+	return createHash("sha256").update(content).digest("hex");
+}
 
-export interface SearchResult {
-	fileMatches: string[];
-	lineResults: { file: string; line: number; text: string }[];
+function storeBlob(config: MemoryConfig, content: string): string {
+	const hash = blobHash(content);
+	const file = path.join(journalDir(config), "blobs", hash.slice(0, 2), hash);
+	if (!fs.existsSync(file)) {
+		fs.mkdirSync(path.dirname(file), { recursive: true });
+		writeViaRename(file, content);
+	}
+	return hash;
 }
 
-export function searchMemory(config: MemoryConfig, query: string, maxResults: number = 20): SearchResult {
-	const needle = query.toLowerCase();
-	const fileMatches: string[] = [];
-	const lineResults: { file: string; line: number; text: string }[] = [];
+export function readBlob(config: MemoryConfig, hash: string): string | null {
+	return readFileSafe(path.join(journalDir(config), "blobs", hash.slice(0, 2), hash));
+}
+
+function appendJournal(config: MemoryConfig, entry: JournalEntry): void {
+	const file = journalFile(config);
+	fs.mkdirSync(path.dirname(file), { recursive: true });
+	// Keep journal blobs out of PI_AUTOCOMMIT commits
+	const ignore = path.join(path.dirname(file), ".gitignore");
+	if (!fs.existsSync(ignore)) fs.writeFileSync(ignore, "*\n", "utf-8");
+	withFileLock(file, () => fs.appendFileSync(file, JSON.stringify(entry) + "\n", "utf-8"));
+}
 
-	function searchFile(filePath: string, displayName: string) {
-		if (displayName.toLowerCase().includes(needle) && !fileMatches.includes(displayName)) {
-			fileMatches.push(displayName);
+export function readJournal(config: MemoryConfig): JournalEntry[] {
+	const content = readFileSafe(journalFile(config)) ?? "";
+	const entries: JournalEntry[] = [];
+	for (const line of content.split("\n")) {
+		if (!line.trim()) continue;
+		try {
+			entries.push(JSON.parse(line));
+		} catch {
+			// A torn last line from a crash; the rest of the journal is still usable
 		}
-		const content = readFileSafe(filePath);
-		if (!content) return;
-		const lines = content.split("\n");
-		for (let i = 0; i < lines.length && lineResults.length < maxResults; i++) {
-			if (lines[i].toLowerCase().includes(needle)) {
-				lineResults.push({ file: displayName, line: i + 1, text: lines[i].trimEnd() });
-			}
+	}
+	return entries;
+}
+
+/**
+ * Run `fn`, journaling every file it writes through atomicWriteFileSync,
+ * updateFileSync or removeFileSync as one entry. Nested calls fold into the
+ * outer entry. Nothing is recorded when no file changed.
+ */
+export function journaled<T>(
+	config: MemoryConfig,
+	meta: { operation: string; sessionId: string; timestamp: string; undoes?: string[] },
+	fn: () => T,
+): T {
+	if (activeRecorder) return fn();
+	const recorder: Recorder = { before: new Map(), after: new Map() };
+	activeRecorder = recorder;
+	try {
+		return fn();
+	} finally {
+		activeRecorder = null;
+		const changes: JournalChange[] = [];
+		for (const [filePath, before] of recorder.before) {
+			const after = recorder.after.get(filePath) ?? null;
+			if (before === after) continue;
+			changes.push({
+				path: filePath,
+				before: before === null ? null : storeBlob(config, before),
+				after: after === null ? null : storeBlob(config, after),
+			});
+		}
+		if (changes.length > 0) {
+			appendJournal(config, { id: randomBytes(6).toString("hex"), ...meta, changes });
 		}
 	}
+}
 
-	function searchDir(dir: string, prefix: string) {
-		try {
-			const files = fs.readdirSync(dir).filter(f => f.endsWith(".md")).sort();
-			for (const f of files) {
-				if (lineResults.length >= maxResults) break;
-				searchFile(path.join(dir, f), prefix ? `${prefix}/${f}` : f);
+/** Entries kept by pruneJournal; older operations can no longer be undone. */
+export const JOURNAL_MAX_ENTRIES = 1000;
+/** Blobs younger than this may belong to an entry another session is still writing. */
+const BLOB_GRACE_MS = 60_000;
+
+/**
+ * Drop all but the newest `maxEntries` journal entries, then delete blobs no
+ * remaining entry references. Returns how many entries and blobs were removed.
+ */
+export function pruneJournal(config: MemoryConfig, maxEntries: number = JOURNAL_MAX_ENTRIES): { entries: number; blobs: number } {
+	const file = journalFile(config);
+	if (!fs.existsSync(file)) return { entries: 0, blobs: 0 };
+	let removed = 0;
+	let kept: JournalEntry[] = [];
+	withFileLock(file, () => {
+		const entries = readJournal(config);
+		kept = entries.slice(-maxEntries);
+		removed = entries.length - kept.length;
+		if (removed > 0) writeViaRename(file, kept.map(e => JSON.stringify(e) + "\n").join(""));
+	});
+
+	const referenced = new Set(kept.flatMap(e => e.changes.flatMap(c => [c.before, c.after])));
+	const blobsDir = path.join(journalDir(config), "blobs");
+	const cutoff = Date.now() - BLOB_GRACE_MS;
+	let blobs = 0;
+	let shards: string[] = [];
+	try { shards = fs.readdirSync(blobsDir); } catch {}
+	for (const shard of shards) {
+		let names: string[] = [];
+		try { names = fs.readdirSync(path.join(blobsDir, shard)); } catch {}
+		for (const name of names) {
+			const blob = path.join(blobsDir, shard, name);
+			try {
+				if (referenced.has(name) || fs.statSync(blob).mtimeMs > cutoff) continue;
+				fs.rmSync(blob, { force: true });
+				blobs++;
+			} catch {}
+		}
+	}
+	return { entries: removed, blobs };
+}
+
+/** One line per entry: `id  timestamp [session]  operation — files`, with paths relative to the memory dir. */
+export function formatJournalEntry(config: MemoryConfig, entry: JournalEntry): string {
+	const files = entry.changes.map(c => {
+		const rel = path.relative(config.memoryDir, c.path);
+		const name = rel.startsWith("..") || path.isAbsolute(rel) ? c.path : rel;
+		return c.before === null ? `${name} (created)` : c.after === null ? `${name} (deleted)` : name;
+	});
+	return `${entry.id}  ${entry.timestamp} [${entry.sessionId}]  ${entry.operation} — ${files.join(", ")}`;
+}
+
+/** Entries that can still be undone, newest first: not undo entries themselves, and not already undone. */
+export function undoableEntries(entries: JournalEntry[]): JournalEntry[] {
+	const undone = new Set(entries.flatMap(e => e.undoes ?? []));
+	return entries.filter(e => !e.undoes && !undone.has(e.id)).reverse();
+}
+
+/**
+ * Revert entries in the order given (newest first). An entry is only
+ * reverted while each of its files still holds what it wrote; on the first
+ * mismatch undo stops and `conflict` explains why.
+ */
+export function undoJournalEntries(
+	config: MemoryConfig,
+	targets: JournalEntry[],
+	meta: { sessionId: string; timestamp: string },
+): { reverted: JournalEntry[]; conflict?: string } {
+	const reverted: JournalEntry[] = [];
+	const undoes: string[] = [];
+	let conflict: string | undefined;
+	journaled(config, { operation: "memory_undo", ...meta, undoes }, () => {
+		for (const entry of targets) {
+			const changed = entry.changes.find(c => {
+				const current = readFileSafe(c.path);
+				return (current === null ? null : blobHash(current)) !== c.after;
+			});
+			if (changed) {
+				conflict = `${changed.path} changed after ${entry.operation} (${entry.id}); it was left alone.`;
+				return;
 			}
-		} catch {}
+			const missing = entry.changes.find(c => c.before !== null && readBlob(config, c.before) === null);
+			if (missing) {
+				conflict = `the journal blob for ${missing.path} before ${entry.id} is missing.`;
+				return;
+			}
+			for (const change of entry.changes) {
+				withFileLock(change.path, () => {
+					if (change.before === null) removeFileSync(change.path);
+					else atomicWriteFileSync(change.path, readBlob(config, change.before)!);
+				});
+			}
+			reverted.push(entry);
+			undoes.push(entry.id);
+		}
+	});
+	return { reverted, conflict };
+}
+
+// --- Markdown sections ---
+
+export type SectionMode = "append" | "replace";
+
+/** Line span of a `## heading` section: the heading line and the index where its body ends. */
+function findSection(lines: string[], heading: string): { start: number; end: number } | null {
+	const title = heading.replace(/^#+\s*/, "").trim().toLowerCase();
+	const start = lines.findIndex(l => /^##\s/.test(l) && l.replace(/^##\s+/, "").trim().toLowerCase() === title);
+	if (start === -1) return null;
+	// Deeper headings belong to the body; the next # or ## ends it
+	let end = start + 1;
+	while (end < lines.length && !/^#{1,2}\s/.test(lines[end])) end++;
+	return { start, end };
+}
+
+/** Body under a `## heading` (trimmed), or null when the heading is missing. */
+export function readSection(content: string, heading: string): string | null {
+	const lines = content.split("\n");
+	const span = findSection(lines, heading);
+	if (!span) return null;
+	return lines.slice(span.start + 1, span.end).join("\n").trim();
+}
+
+/**
+ * Append to, or replace, the body under a `## heading` (matched
+ * case-insensitively), adding the heading at the end when it is missing.
+ * Everything outside that body is left byte-for-byte intact.
+ */
+export function upsertSection(content: string, heading: string, body: string, mode: SectionMode): string {
+	const title = heading.replace(/^#+\s*/, "").trim();
+	const lines = content.split("\n");
+	const span = findSection(lines, title);
+	if (!span) {
+		const trimmed = content.replace(/\s+$/, "");
+		return `${trimmed}${trimmed ? "\n\n" : ""}## ${title}\n\n${body}\n`;
+	}
+
+	let last = span.end;
+	while (last > span.start + 1 && !lines[last - 1].trim()) last--;
+	if (mode === "append" && last > span.start + 1) {
+		lines.splice(last, 0, "", ...body.split("\n"));
+		return lines.join("\n");
 	}
 
-	searchDir(config.memoryDir, "");
-	searchDir(config.dailyDir, "daily");
-	searchDir(config.notesDir, "notes");
+	const replacement = ["", ...body.split("\n")];
+	// Keep a blank line before the next heading, or the file's trailing newline
+	if (span.end < lines.length || content.endsWith("\n")) replacement.push("");
+	lines.splice(span.start + 1, span.end - span.start - 1, ...replacement);
+	return lines.join("\n");
+}
+
+// --- Edits ---
 
-	return { fileMatches, lineResults };
+/** Raised when a memory_edit cannot be applied unambiguously; the message is shown to the model. */
+export class EditError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = "EditError";
+	}
+}
+
+/** Lines of a file without the empty string after a trailing newline. */
+function fileLines(content: string): string[] {
+	if (content === "") return [];
+	const lines = content.split("\n");
+	if (content.endsWith("\n")) lines.pop();
+	return lines;
+}
+
+function joinLines(lines: string[], trailingNewline: boolean): string {
+	return lines.join("\n") + (trailingNewline && lines.length > 0 ? "\n" : "");
+}
+
+/** Replace the single exact occurrence of `oldText`. */
+export function replaceExact(content: string, oldText: string, newText: string): string {
+	if (!oldText) throw new EditError("'old_text' must not be empty.");
+	const count = content.split(oldText).length - 1;
+	if (count === 0) throw new EditError("'old_text' was not found; it must match the file exactly, including whitespace.");
+	if (count > 1) throw new EditError(`'old_text' matches ${count} times; include more surrounding text so it matches exactly once.`);
+	const at = content.indexOf(oldText);
+	return content.slice(0, at) + newText + content.slice(at + oldText.length);
+}
+
+/** Delete lines `start`..`end` (1-based, inclusive). */
+export function deleteLines(content: string, start: number, end: number): string {
+	const lines = fileLines(content);
+	if (!Number.isInteger(start) || !Number.isInteger(end) || start < 1 || end < start || end > lines.length) {
+		throw new EditError(`Invalid line range ${start}-${end}; the file has ${lines.length} line(s).`);
+	}
+	lines.splice(start - 1, end - start + 1);
+	return joinLines(lines, content.endsWith("\n"));
+}
+
+/** Insert `text` after the single line containing `anchor`. */
+export function insertAfter(content: string, anchor: string, text: string): string {
+	if (!anchor) throw new EditError("'anchor' must not be empty.");
+	const lines = fileLines(content);
+	const matches = lines.flatMap((line, i) => line.includes(anchor) ? [i] : []);
+	if (matches.length === 0) throw new EditError(`No line contains "${anchor}".`);
+	if (matches.length > 1) {
+		throw new EditError(`"${anchor}" appears on ${matches.length} lines (${matches.map(i => i + 1).join(", ")}); use a more specific anchor.`);
+	}
+	lines.splice(matches[0] + 1, 0, ...text.split("\n"));
+	return joinLines(lines, content.endsWith("\n"));
+}
+
+interface DiffOp {
+	kind: " " | "-" | "+";
+	text: string;
+}
+
+/** Line diff via LCS over the part between the common prefix and suffix. */
+function diffLines(a: string[], b: string[]): DiffOp[] {
+	let pre = 0;
+	while (pre < a.length && pre < b.length && a[pre] === b[pre]) pre++;
+	let suf = 0;
+	while (suf < a.length - pre && suf < b.length - pre && a[a.length - 1 - suf] === b[b.length - 1 - suf]) suf++;
+	const am = a.slice(pre, a.length - suf);
+	const bm = b.slice(pre, b.length - suf);
+
+	const lcs = Array.from({ length: am.length + 1 }, () => new Uint32Array(bm.length + 1));
+	for (let i = am.length - 1; i >= 0; i--) {
+		for (let j = bm.length - 1; j >= 0; j--) {
+			lcs[i][j] = am[i] === bm[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+		}
+	}
+
+	const ops: DiffOp[] = a.slice(0, pre).map(text => ({ kind: " ", text }));
+	let i = 0;
+	let j = 0;
+	while (i < am.length || j < bm.length) {
+		if (i < am.length && j < bm.length && am[i] === bm[j]) {
+			ops.push({ kind: " ", text: am[i++] });
+			j++;
+		} else if (j >= bm.length || (i < am.length && lcs[i + 1][j] >= lcs[i][j + 1])) {
+			ops.push({ kind: "-", text: am[i++] });
+		} else {
+			ops.push({ kind: "+", text: bm[j++] });
+		}
+	}
+	for (const text of a.slice(a.length - suf)) ops.push({ kind: " ", text });
+	return ops;
+}
+
+/** Unified diff of two versions of `name`, or "" when they are equal. */
+export function unifiedDiff(before: string, after: string, name: string, context: number = 3): string {
+	if (before === after) return "";
+	const ops = diffLines(fileLines(before), fileLines(after));
+
+	// 1-based line numbers each op starts at, in the old and new file
+	const oldLine: number[] = [];
+	const newLine: number[] = [];
+	let o = 1;
+	let n = 1;
+	for (const op of ops) {
+		oldLine.push(o);
+		newLine.push(n);
+		if (op.kind !== "+") o++;
+		if (op.kind !== "-") n++;
+	}
+
+	const out = [`--- a/${name}`, `+++ b/${name}`];
+	let k = 0;
+	while (k < ops.length) {
+		while (k < ops.length && ops[k].kind === " ") k++;
+		if (k >= ops.length) break;
+		const start = Math.max(0, k - context);
+		let end = k;
+		// Extend the hunk while the next change is within 2 * context lines
+		while (end < ops.length) {
+			let next = end;
+			while (next < ops.length && ops[next].kind !== " ") next++;
+			let gap = next;
+			while (gap < ops.length && ops[gap].kind === " ") gap++;
+			if (gap < ops.length && gap - next <= 2 * context) {
+				end = gap;
+			} else {
+				end = Math.min(ops.length, next + context);
+				break;
+			}
+		}
+		const hunk = ops.slice(start, end);
+		const oldCount = hunk.filter(op => op.kind !== "+").length;
+		const newCount = hunk.filter(op => op.kind !== "-").length;
+		const oldStart = oldCount === 0 ? oldLine[start] - 1 : oldLine[start];
+		const newStart = newCount === 0 ? newLine[start] - 1 : newLine[start];
+		out.push(`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`);
+		for (const op of hunk) out.push(`${op.kind}${op.text}`);
+		k = end;
+	}
+	return out.join("\n");
+}
+
+// --- Consolidation ---
+
+/** Where a consolidation proposal for a layer's MEMORY.md is kept until it is applied or discarded. */
+export function proposalPaths(config: MemoryConfig): { file: string; diff: string } {
+	const dir = path.join(path.dirname(config.memoryFile), ".proposals");
+	return { file: path.join(dir, "MEMORY.md"), diff: path.join(dir, "MEMORY.md.diff") };
+}
+
+/** Save a proposal and its diff; `.proposals/` is git-ignored so a declined one never reaches a PI_AUTOCOMMIT commit. */
+export function writeProposal(config: MemoryConfig, proposed: string, diff: string): { file: string; diff: string } {
+	const paths = proposalPaths(config);
+	fs.mkdirSync(path.dirname(paths.file), { recursive: true });
+	ensureGitignore(path.dirname(paths.file), ["*"]);
+	atomicWriteFileSync(paths.file, proposed);
+	atomicWriteFileSync(paths.diff, `${diff}\n`);
+	return paths;
+}
+
+/**
+ * Tidy a model's consolidated MEMORY.md: unwrap a surrounding code fence and
+ * drop entry stamps, which no longer describe the merged text.
+ */
+export function cleanConsolidation(output: string): string {
+	let text = output.trim();
+	const fenced = text.match(/^```(?:markdown|md)?\n([\s\S]*?)\n```$/);
+	if (fenced) text = fenced[1];
+	return text
+		.split("\n")
+		.filter(line => !STAMP_LINE.test(line.trim()))
+		.join("\n")
+		.replace(/\n{3,}/g, "\n\n")
+		.trim();
+}
+
+/** Lines added and removed by a unified diff, not counting its headers. */
+export function diffStat(diff: string): { added: number; removed: number } {
+	let added = 0;
+	let removed = 0;
+	for (const line of diff.split("\n")) {
+		if (line.startsWith("+++ ") || line.startsWith("--- ")) continue;
+		if (line.startsWith("+")) added++;
+		else if (line.startsWith("-")) removed++;
+	}
+	return { added, removed };
+}
+
+// --- Projects ---
+
+export interface ProjectInfo {
+	/** Git root of the session's cwd, or the cwd itself outside a repo. */
+	root: string;
+	/** Directory name under `projects/`: readable basename plus a hash of the full root path. */
+	slug: string;
+	/** `<memoryDir>/projects/<slug>`. */
+	dir: string;
+}
+
+/** Nearest ancestor of `start` (inclusive) containing a `.git` directory or file. */
+export function findGitRoot(start: string): string | null {
+	let dir = path.resolve(start);
+	while (true) {
+		if (fs.existsSync(path.join(dir, ".git"))) return dir;
+		const parent = path.dirname(dir);
+		if (parent === dir) return null;
+		dir = parent;
+	}
+}
+
+export function projectSlug(root: string): string {
+	const name = path.basename(root).toLowerCase().replace(/[^a-z0-9._-]+/g, "-").replace(/^-+|-+$/g, "") || "root";
+	const hash = createHash("sha1").update(path.resolve(root)).digest("hex").slice(0, 8);
+	return `${name}-${hash}`;
+}
+
+export function resolveProject(config: MemoryConfig, cwd: string): ProjectInfo {
+	const root = findGitRoot(cwd) ?? path.resolve(cwd);
+	const slug = projectSlug(root);
+	return { root, slug, dir: path.join(config.memoryDir, "projects", slug) };
+}
+
+/** Shared memory committed inside a repository, relative to the directory holding it. */
+export const REPO_MEMORY_DIR = path.join(".pi", "memory");
+
+/**
+ * Nearest `.pi/memory` directory from `start` upwards. The walk stops at the
+ * git root, so one above the repository is never picked up.
+ */
+export function findRepoMemoryDir(start: string): string | null {
+	const stop = findGitRoot(start);
+	let dir = path.resolve(start);
+	while (true) {
+		const candidate = path.join(dir, REPO_MEMORY_DIR);
+		try {
+			if (fs.statSync(candidate).isDirectory()) return candidate;
+		} catch {}
+		const parent = path.dirname(dir);
+		if (dir === stop || parent === dir) return null;
+		dir = parent;
+	}
+}
+
+/** The config with the project and repo-local memory of the session's cwd resolved. */
+export function withSession(config: MemoryConfig, cwd: string): MemoryConfig {
+	return {
+		...config,
+		project: resolveProject(config, cwd),
+		repoMemoryDir: config.repoMemory ? findRepoMemoryDir(cwd) ?? undefined : undefined,
+	};
+}
+
+/** Config whose MEMORY.md, SCRATCHPAD.md and notes/ live in `dir`. Daily logs and sessions stay global. */
+function layerAt(config: MemoryConfig, dir: string): MemoryConfig {
+	return {
+		...config,
+		memoryDir: dir,
+		memoryFile: path.join(dir, "MEMORY.md"),
+		scratchpadFile: path.join(dir, "SCRATCHPAD.md"),
+		notesDir: path.join(dir, "notes"),
+		contextFiles: [],
+		project: undefined,
+		repoMemoryDir: undefined,
+	};
+}
+
+export function projectConfig(config: MemoryConfig, project: ProjectInfo): MemoryConfig {
+	return layerAt(config, project.dir);
+}
+
+export function repoConfig(config: MemoryConfig, dir: string): MemoryConfig {
+	return layerAt(config, dir);
+}
+
+/** Where a tool call reads or writes: personal global memory, this project's area, or the repo's shared `.pi/memory`. */
+export type MemoryLayer = "global" | "project" | "repo";
+
+/** Why a tool call can't use `layer`, or null when it can. */
+export function layerUnavailable(config: MemoryConfig, layer: MemoryLayer): string | null {
+	if (layer === "repo" && !config.repoMemory) {
+		return "repo-local memory is disabled (PI_REPO_MEMORY=0); use scope 'global' or 'project'.";
+	}
+	return null;
+}
+
+/**
+ * Config for the layer a tool call targets, plus the prefix its files carry
+ * in search results and tool output. The repo layer is created at the git
+ * root (or cwd) when the repo has none yet. Throws for a layer that
+ * `layerUnavailable` rejects; callers check that first to report it.
+ */
+export function layerConfig(config: MemoryConfig, layer: MemoryLayer, cwd: string): { config: MemoryConfig; prefix: string } {
+	const unavailable = layerUnavailable(config, layer);
+	if (unavailable) throw new Error(unavailable);
+	if (layer === "project") {
+		const project = resolveProject(config, cwd);
+		return { config: projectConfig(config, project), prefix: `projects/${project.slug}/` };
+	}
+	if (layer === "repo") {
+		const dir = findRepoMemoryDir(cwd) ?? path.join(findGitRoot(cwd) ?? path.resolve(cwd), REPO_MEMORY_DIR);
+		return { config: repoConfig(config, dir), prefix: "repo/" };
+	}
+	return { config, prefix: "" };
+}
+
+// --- Scratchpad ---
+
+export interface ScratchpadItem {
+	done: boolean;
+	text: string;
+	/** Stamp comment (`<!-- ts [sid] -->`) without the id. */
+	meta: string;
+	/** Short stable identifier, persisted inside the meta comment as `id:xxxx`. */
+	id?: string;
+	/** 1 (highest) to 3, written as a trailing `!p1`. */
+	priority?: number;
+	/** YYYY-MM-DD, written as a trailing `due:2026-02-20`. */
+	due?: string;
+	/** Written as trailing `#tag` tokens. */
+	tags?: string[];
+	/** Nesting level; subtasks are indented two spaces per level. Omitted for top-level items. */
+	depth?: number;
+	/** Name of the `## Section` the item lives under. */
+	section?: string;
+	/** `ts [sid]` of the last edit or move, persisted in the meta comment as `edited …`. */
+	edited?: string;
+	/** `ts [sid]` of when the item was checked off, persisted in the meta comment as `completed …`. */
+	completed?: string;
+	/** Free-text lines written below the item (notes, blank lines), kept verbatim and moved with it. */
+	notes?: string[];
+}
+
+const ITEM_ID_PATTERN = /\s+id:([a-z0-9]+)(?=\s*-->$)/;
+const ITEM_COMPLETED_PATTERN = /\s+completed (.+?)(?=\s*-->$)/;
+const ITEM_EDITED_PATTERN = /\s+edited (.+?)(?=\s*-->$)/;
+const PRIORITY_TOKEN = /^!p([1-3])$/;
+const DUE_TOKEN = /^due:(\d{4}-\d{2}-\d{2})$/;
+const TAG_TOKEN = /^#([A-Za-z][\w-]*)$/;
+
+/**
+ * Split trailing `!p1 due:YYYY-MM-DD #tag` annotations off an item's text.
+ * Annotations elsewhere in the text are left alone.
+ */
+export function parseAnnotations(raw: string): Pick<ScratchpadItem, "text" | "priority" | "due" | "tags"> {
+	const tokens = raw.split(" ");
+	let priority: number | undefined;
+	let due: string | undefined;
+	const tags: string[] = [];
+	let end = tokens.length;
+	while (end > 1) {
+		const token = tokens[end - 1];
+		let m: RegExpMatchArray | null;
+		if ((m = token.match(PRIORITY_TOKEN)) && priority === undefined) priority = parseInt(m[1], 10);
+		else if ((m = token.match(DUE_TOKEN)) && due === undefined) due = m[1];
+		else if ((m = token.match(TAG_TOKEN))) tags.unshift(m[1]);
+		else break;
+		end--;
+	}
+	const result: Pick<ScratchpadItem, "text" | "priority" | "due" | "tags"> = { text: tokens.slice(0, end).join(" ") };
+	if (priority !== undefined) result.priority = priority;
+	if (due) result.due = due;
+	if (tags.length > 0) result.tags = tags;
+	return result;
+}
+
+/** A new open item from tool input; trailing `!p1`, `due:` and `#tag` tokens become annotations, as when the file is parsed. */
+export function newScratchpadItem(raw: string, meta: string, id: string): ScratchpadItem {
+	return { done: false, ...parseAnnotations(raw.trim()), meta, id };
+}
+
+/** Item text with its annotations, as written after the checkbox. */
+export function itemText(item: ScratchpadItem): string {
+	const parts = [item.text];
+	if (item.priority) parts.push(`!p${item.priority}`);
+	if (item.due) parts.push(`due:${item.due}`);
+	for (const tag of item.tags ?? []) parts.push(`#${tag}`);
+	return parts.join(" ");
+}
+
+const SECTION_LINE = /^##\s+(.+?)\s*$/;
+const ITEM_LINE = /^(\s*)- \[([ xX])\] (.+)$/;
+const META_LINE = /^<!--.*-->$/;
+
+/**
+ * Split a scratchpad into its free-text blocks: the lines after the title
+ * or a `## Section` heading before the first item (keyed by section), and
+ * the lines after each item (keyed by item position). Blank lines the
+ * serializer writes itself, around headings and at the end, are trimmed.
+ */
+function scratchpadFreeText(content: string): { intros: Map<string | undefined, string[]>; notes: Map<number, string[]> } {
+	const intros = new Map<string | undefined, string[]>();
+	const notes = new Map<number, string[]>();
+	const lines = content.split("\n");
+	let start = 0;
+	while (start < lines.length && !lines[start].trim()) start++;
+	if (/^# /.test(lines[start] ?? "")) start++;
+
+	let section: string | undefined;
+	let item = -1;
+	let itemCount = 0;
+	let block: string[] = [];
+	const flush = (atItem: boolean) => {
+		if (item < 0) while (block.length > 0 && !block[0].trim()) block.shift();
+		if (!atItem) while (block.length > 0 && !block[block.length - 1].trim()) block.pop();
+		if (block.length > 0) {
+			if (item < 0) intros.set(section, block);
+			else notes.set(item, block);
+		}
+		block = [];
+	};
+	for (let i = start; i < lines.length; i++) {
+		const line = lines[i];
+		const heading = line.match(SECTION_LINE);
+		if (heading) {
+			flush(false);
+			section = heading[1];
+			item = -1;
+			continue;
+		}
+		if (ITEM_LINE.test(line)) {
+			// The item's stamp comment is part of the item, not free text
+			if (block.length > 0 && META_LINE.test(block[block.length - 1].trim())) block.pop();
+			flush(true);
+			item = itemCount++;
+			continue;
+		}
+		block.push(line);
+	}
+	flush(false);
+	return { intros, notes };
+}
+
+export function parseScratchpad(content: string): ScratchpadItem[] {
+	const items: ScratchpadItem[] = [];
+	const lines = content.split("\n");
+	// Indent widths of the open ancestors of the current line
+	const indents: number[] = [];
+	let section: string | undefined;
+	for (let i = 0; i < lines.length; i++) {
+		const line = lines[i];
+		const heading = line.match(SECTION_LINE);
+		if (heading) {
+			section = heading[1];
+			indents.length = 0;
+			continue;
+		}
+		const match = line.match(ITEM_LINE);
+		if (match) {
+			const width = match[1].replace(/\t/g, "    ").length;
+			while (indents.length > 0 && indents[indents.length - 1] >= width) indents.pop();
+			const depth = indents.length;
+			indents.push(width);
+
+			let meta = "";
+			let id: string | undefined;
+			let edited: string | undefined;
+			let completed: string | undefined;
+			if (i > 0 && META_LINE.test(lines[i - 1].trim())) {
+				meta = lines[i - 1].trim();
+				const idMatch = meta.match(ITEM_ID_PATTERN);
+				if (idMatch) {
+					id = idMatch[1];
+					meta = meta.replace(ITEM_ID_PATTERN, "");
+				}
+				// Extras are written edited, completed, id — strip them from the end in reverse
+				const completedMatch = meta.match(ITEM_COMPLETED_PATTERN);
+				if (completedMatch) {
+					completed = completedMatch[1];
+					meta = meta.replace(ITEM_COMPLETED_PATTERN, "");
+				}
+				const editedMatch = meta.match(ITEM_EDITED_PATTERN);
+				if (editedMatch) {
+					edited = editedMatch[1];
+					meta = meta.replace(ITEM_EDITED_PATTERN, "");
+				}
+				if (/^<!--\s*-->$/.test(meta)) meta = "";
+			}
+			const { text, ...annotations } = parseAnnotations(match[3]);
+			const item: ScratchpadItem = {
+				done: match[2].toLowerCase() === "x",
+				text,
+				meta,
+			};
+			if (id) item.id = id;
+			if (edited) item.edited = edited;
+			if (completed) item.completed = completed;
+			Object.assign(item, annotations);
+			if (depth > 0) item.depth = depth;
+			if (section !== undefined) item.section = section;
+			items.push(item);
+		}
+	}
+	for (const [index, notes] of scratchpadFreeText(content).notes) items[index].notes = notes;
+	return items;
+}
+
+/** Free text between the title or a `## Section` heading and its first item, keyed by section (undefined for the top). */
+export function parseScratchpadIntros(content: string): Map<string | undefined, string[]> {
+	return scratchpadFreeText(content).intros;
+}
+
+/** `## Section` names in file order, including sections with no items. */
+export function parseScratchpadSections(content: string): string[] {
+	const sections: string[] = [];
+	for (const line of content.split("\n")) {
+		const heading = line.match(SECTION_LINE);
+		if (heading && !sections.includes(heading[1])) sections.push(heading[1]);
+	}
+	return sections;
+}
+
+function metaLine(item: ScratchpadItem): string {
+	const extras: string[] = [];
+	if (item.edited) extras.push(`edited ${item.edited}`);
+	if (item.completed) extras.push(`completed ${item.completed}`);
+	if (item.id) extras.push(`id:${item.id}`);
+	if (extras.length === 0) return item.meta;
+	if (!item.meta) return `<!-- ${extras.join(" ")} -->`;
+	return item.meta.replace(/\s*-->$/, ` ${extras.join(" ")} -->`);
+}
+
+/** Unsectioned items first, then each section in `sections` order, then sections only named by items. */
+function sectionOrder(items: ScratchpadItem[], sections: string[]): (string | undefined)[] {
+	const order: (string | undefined)[] = [undefined, ...sections];
+	for (const item of items) {
+		if (!order.includes(item.section)) order.push(item.section);
+	}
+	return order;
+}
+
+/**
+ * Write items back under their sections. Free text from parseScratchpadIntros
+ * and each item's `notes` goes back where it was, so only the title line
+ * and blank lines around headings are normalized.
+ */
+export function serializeScratchpad(items: ScratchpadItem[], sections: string[] = [], intros: Map<string | undefined, string[]> = new Map()): string {
+	const lines: string[] = ["# Scratchpad", ""];
+	for (const section of sectionOrder(items, sections)) {
+		if (section !== undefined) {
+			if (lines[lines.length - 1] !== "") lines.push("");
+			lines.push(`## ${section}`, "");
+		}
+		lines.push(...(intros.get(section) ?? []));
+		for (const item of items.filter(i => i.section === section)) {
+			const indent = "  ".repeat(item.depth ?? 0);
+			const meta = metaLine(item);
+			if (meta) {
+				lines.push(indent + meta);
+			}
+			const checkbox = item.done ? "[x]" : "[ ]";
+			lines.push(`${indent}- ${checkbox} ${itemText(item)}`);
+			lines.push(...(item.notes ?? []));
+		}
+	}
+	return lines.join("\n") + "\n";
+}
+
+/** Index just past the subtree rooted at `index` (the item and all deeper items that follow it). */
+export function subtreeEnd(items: ScratchpadItem[], index: number): number {
+	const depth = items[index].depth ?? 0;
+	let end = index + 1;
+	while (end < items.length && (items[end].depth ?? 0) > depth) end++;
+	return end;
+}
+
+/** Insert `child` as the last subtask of `parent`, inheriting its section. */
+export function insertSubtask(items: ScratchpadItem[], parent: ScratchpadItem, child: ScratchpadItem): void {
+	const index = items.indexOf(parent);
+	child.depth = (parent.depth ?? 0) + 1;
+	if (parent.section !== undefined) child.section = parent.section;
+	else delete child.section;
+	items.splice(subtreeEnd(items, index), 0, child);
+}
+
+/** Index of the item's parent, or -1 for a top-level item. */
+function parentIndex(items: ScratchpadItem[], index: number): number {
+	const depth = items[index].depth ?? 0;
+	for (let j = index - 1; j >= 0 && depth > 0; j--) {
+		if ((items[j].depth ?? 0) < depth) return j;
+	}
+	return -1;
+}
+
+/**
+ * Remove an item. Items with subtasks are only removed together with them
+ * when `cascade` is set; otherwise nothing changes and null is returned.
+ */
+export function removeItem(items: ScratchpadItem[], item: ScratchpadItem, cascade: boolean = false): ScratchpadItem[] | null {
+	const start = items.indexOf(item);
+	const end = subtreeEnd(items, start);
+	if (end - start > 1 && !cascade) return null;
+	return items.splice(start, end - start);
+}
+
+export type MovePosition = "top" | "bottom" | number;
+
+/**
+ * Move an item (with its subtasks) among its siblings: to the top, the
+ * bottom, or a 1-based position. Passing `section` moves it to the top level
+ * of that section first.
+ */
+export function moveItem(items: ScratchpadItem[], item: ScratchpadItem, position: MovePosition, section?: string): void {
+	const start = items.indexOf(item);
+	// The parent precedes the item, so its index survives removing the block
+	const parent = section === undefined ? parentIndex(items, start) : -1;
+	const block = items.splice(start, subtreeEnd(items, start) - start);
+
+	if (section !== undefined) {
+		const shift = item.depth ?? 0;
+		for (const b of block) {
+			const depth = (b.depth ?? 0) - shift;
+			if (depth > 0) b.depth = depth;
+			else delete b.depth;
+			b.section = section;
+		}
+	}
+
+	// Siblings share the item's section, depth and parent
+	const depth = item.depth ?? 0;
+	const siblings: number[] = [];
+	const from = parent === -1 ? 0 : parent + 1;
+	const to = parent === -1 ? items.length : subtreeEnd(items, parent);
+	for (let i = from; i < to; i++) {
+		if ((items[i].depth ?? 0) === depth && items[i].section === item.section) siblings.push(i);
+	}
+
+	let insertAt: number;
+	if (siblings.length === 0) {
+		insertAt = parent === -1 ? items.length : to;
+	} else if (position === "top") {
+		insertAt = siblings[0];
+	} else if (position === "bottom" || position > siblings.length) {
+		insertAt = subtreeEnd(items, siblings[siblings.length - 1]);
+	} else {
+		insertAt = siblings[Math.max(1, Math.floor(position)) - 1];
+	}
+	items.splice(insertAt, 0, ...block);
+}
+
+/**
+ * Split off done items. A done item whose subtasks are not all done is kept
+ * so its open children are not orphaned.
+ */
+export function partitionDone(items: ScratchpadItem[]): { kept: ScratchpadItem[]; removed: ScratchpadItem[] } {
+	const kept: ScratchpadItem[] = [];
+	const removed: ScratchpadItem[] = [];
+	for (let i = 0; i < items.length; i++) {
+		const subtree = items.slice(i, subtreeEnd(items, i));
+		if (subtree.every(item => item.done)) {
+			removed.push(...subtree);
+			i += subtree.length - 1;
+		} else {
+			kept.push(items[i]);
+		}
+	}
+	return { kept, removed };
+}
+
+/**
+ * Day a done item belongs to in the daily logs: the (rollover-adjusted) day
+ * of its completion stamp, or `fallback` when it has none.
+ */
+export function completionDay(item: ScratchpadItem, fallback: string, opts: DayOptions = {}): string {
+	const when = item.completed ? parseTimestamp(item.completed) : undefined;
+	return when ? todayStr(opts, when) : fallback;
+}
+
+/** One archived line: the item plus when it was added and completed, indented by `depth`. */
+export function formatCompletedItem(item: ScratchpadItem, depth: number = 0): string {
+	const added = item.meta.replace(/^<!--\s*|\s*-->$/g, "");
+	const when: string[] = [];
+	if (added) when.push(`added ${added}`);
+	if (item.completed) when.push(`completed ${item.completed}`);
+	const suffix = when.length > 0 ? ` (${when.join(", ")})` : "";
+	return `${"  ".repeat(depth)}- [x] ${itemText(item)}${suffix}`;
+}
+
+/**
+ * Group cleared items by the day they were completed, formatted for the
+ * daily log. A subtree is filed under its root's day so it stays together,
+ * and each item's notes are kept as indented lines below it.
+ */
+export function archiveCompletedItems(removed: ScratchpadItem[], fallback: string, opts: DayOptions = {}): Map<string, string[]> {
+	const byDay = new Map<string, string[]>();
+	for (let i = 0; i < removed.length; i++) {
+		const rootDepth = removed[i].depth ?? 0;
+		let end = i + 1;
+		while (end < removed.length && (removed[end].depth ?? 0) > rootDepth) end++;
+		const day = completionDay(removed[i], fallback, opts);
+		const lines = byDay.get(day) ?? [];
+		for (const item of removed.slice(i, end)) {
+			const depth = (item.depth ?? 0) - rootDepth;
+			lines.push(formatCompletedItem(item, depth));
+			// Notes follow as indented lines; blank lines would end the list
+			for (const note of item.notes ?? []) {
+				if (note.trim()) lines.push(`${"  ".repeat(depth + 1)}${note.trim()}`);
+			}
+		}
+		byDay.set(day, lines);
+		i = end - 1;
+	}
+	return byDay;
+}
+
+/**
+ * Append lines to a daily log's `## Completed` section, creating the section
+ * at the end of the log if it is missing.
+ */
+export function appendCompleted(content: string, lines: string[]): string {
+	const all = content.split("\n");
+	const start = all.findIndex(l => /^##\s+Completed\s*$/.test(l));
+	if (start === -1) {
+		const separator = content.trim() ? "\n\n" : "";
+		return `${content.replace(/\s+$/, "")}${separator}## Completed\n\n${lines.join("\n")}\n`;
+	}
+	let end = start + 1;
+	while (end < all.length && !/^#{1,2}\s/.test(all[end])) end++;
+	// Insert after the section's last non-blank line
+	let insertAt = end;
+	while (insertAt > start + 1 && !all[insertAt - 1].trim()) insertAt--;
+	const block = insertAt === start + 1 ? ["", ...lines] : [...lines];
+	if (insertAt < all.length && all[insertAt].trim()) block.push("");
+	all.splice(insertAt, 0, ...block);
+	return all.join("\n");
+}
+
+/** Open items plus the ancestors needed to show them in place. */
+export function openItemsWithAncestors(items: ScratchpadItem[]): ScratchpadItem[] {
+	const keep = new Set<number>();
+	for (let i = 0; i < items.length; i++) {
+		if (items[i].done) continue;
+		keep.add(i);
+		let depth = items[i].depth ?? 0;
+		for (let j = i - 1; j >= 0 && depth > 0; j--) {
+			const d = items[j].depth ?? 0;
+			if (d < depth) {
+				keep.add(j);
+				depth = d;
+			}
+		}
+	}
+	return items.filter((_, i) => keep.has(i));
+}
+
+/**
+ * Render the scratchpad as Markdown blocks: one block per section heading and
+ * one per top-level item together with its subtasks.
+ */
+export function scratchpadOutline(items: ScratchpadItem[], sections: string[] = [], opts: { headingLevel?: number; ids?: boolean } = {}): string[] {
+	const blocks: string[] = [];
+	const hashes = "#".repeat(opts.headingLevel ?? 3);
+	for (const section of sectionOrder(items, sections)) {
+		const sectionItems = items.filter(i => i.section === section);
+		if (section !== undefined && sectionItems.length > 0) blocks.push(`${hashes} ${section}`);
+		for (const item of sectionItems) {
+			const line = `${"  ".repeat(item.depth ?? 0)}- ${item.done ? "[x]" : "[ ]"} ${itemText(item)}${opts.ids && item.id ? ` (id: ${item.id})` : ""}`;
+			if ((item.depth ?? 0) === 0 || blocks.length === 0) blocks.push(line);
+			else blocks[blocks.length - 1] += `\n${line}`;
+		}
+	}
+	return blocks;
+}
+
+export function newItemId(taken: Set<string>): string {
+	for (;;) {
+		const id = randomBytes(4).readUInt32BE(0).toString(36).slice(-4).padStart(4, "0");
+		if (!taken.has(id)) return id;
+	}
+}
+
+/** Give every item without an id a fresh one. Returns true if any item changed. */
+export function assignItemIds(items: ScratchpadItem[]): boolean {
+	const taken = new Set(items.map(i => i.id).filter((id): id is string => !!id));
+	let changed = false;
+	for (const item of items) {
+		if (item.id) continue;
+		item.id = newItemId(taken);
+		taken.add(item.id);
+		changed = true;
+	}
+	return changed;
+}
+
+/**
+ * Resolve a done/undo reference. An exact id (optionally `#`-prefixed) wins;
+ * otherwise case-insensitive substring matches among `candidates`, narrowed
+ * to an exact text match when there is one. More than one result means the
+ * reference is ambiguous.
+ */
+export function findScratchpadItems(items: ScratchpadItem[], ref: string, candidates: (item: ScratchpadItem) => boolean = () => true): ScratchpadItem[] {
+	const needle = ref.trim().replace(/^#/, "").toLowerCase();
+	const byId = items.find(i => i.id === needle);
+	if (byId) return [byId];
+
+	const matches = items.filter(i => candidates(i) && i.text.toLowerCase().includes(ref.trim().toLowerCase()));
+	if (matches.length > 1) {
+		const exact = matches.filter(i => i.text.toLowerCase() === ref.trim().toLowerCase());
+		if (exact.length === 1) return exact;
+	}
+	return matches;
+}
+
+/** One item per line, with its id: `- [ ] text !p1 (id: k3f9)`. */
+export function formatScratchpadList(items: ScratchpadItem[]): string {
+	return items.map(i => `- ${i.done ? "[x]" : "[ ]"} ${itemText(i)}${i.id ? ` (id: ${i.id})` : ""}`).join("\n");
+}
+
+export function isOverdue(item: ScratchpadItem, today: string): boolean {
+	return !item.done && !!item.due && item.due < today;
+}
+
+export interface ScratchpadFilter {
+	tag?: string;
+	/** Keep items at this priority or higher (1 = only p1). */
+	maxPriority?: number;
+	/** Keep only open items past their due date, relative to `today`. */
+	overdue?: boolean;
+	today?: string;
+}
+
+export function filterScratchpadItems(items: ScratchpadItem[], filter: ScratchpadFilter): ScratchpadItem[] {
+	const tag = filter.tag?.replace(/^#/, "").toLowerCase();
+	return items.filter(i =>
+		(!tag || (i.tags ?? []).some(t => t.toLowerCase() === tag)) &&
+		(!filter.maxPriority || (!!i.priority && i.priority <= filter.maxPriority)) &&
+		(!filter.overdue || isOverdue(i, filter.today ?? "")),
+	);
+}
+
+export type ScratchpadSort = "position" | "priority" | "due";
+
+/**
+ * Stable sort. 'priority' puts p1 first and unprioritized items last;
+ * 'due' puts the earliest due date first and undated items last.
+ */
+export function sortScratchpadItems(items: ScratchpadItem[], by: ScratchpadSort): ScratchpadItem[] {
+	if (by === "position") return [...items];
+	const key = (i: ScratchpadItem) => by === "priority" ? String(i.priority ?? 9) : (i.due ?? "9999-99-99");
+	return [...items].sort((a, b) => key(a).localeCompare(key(b)));
+}
+
+/** Overdue and p1 open items, for the top of the injected scratchpad section. */
+export function scratchpadAttention(items: ScratchpadItem[], today: string): string {
+	const lines: string[] = [];
+	for (const item of items) {
+		if (item.done) continue;
+		const reasons: string[] = [];
+		if (isOverdue(item, today)) reasons.push(`overdue since ${item.due}`);
+		if (item.priority === 1) reasons.push("high priority");
+		if (reasons.length > 0) lines.push(`- ${item.text} (${reasons.join(", ")}${item.id ? `, id: ${item.id}` : ""})`);
+	}
+	return lines.length > 0 ? `**Needs attention:**\n${lines.join("\n")}` : "";
+}
+
+// --- Rollups ---
+
+export type RollupKind = "weekly" | "monthly";
+
+export interface RollupPeriod {
+	kind: RollupKind;
+	/** `YYYY-Www` (ISO week) or `YYYY-MM`. */
+	period: string;
+	/** Every calendar day in the period, oldest first. */
+	days: string[];
+}
+
+export interface DailyLog {
+	date: string;
+	content: string;
+}
+
+/** ISO 8601 week of a YYYY-MM-DD date, e.g. `2026-W08`. Weeks start on Monday. */
+export function isoWeek(date: string): string {
+	const d = new Date(`${date}T00:00:00Z`);
+	const weekday = d.getUTCDay() || 7;
+	// The week belongs to the year its Thursday falls in
+	const thursday = addDays(date, 4 - weekday);
+	const year = parseInt(thursday.slice(0, 4), 10);
+	const jan1 = Date.UTC(year, 0, 1);
+	const week = Math.floor((Date.parse(`${thursday}T00:00:00Z`) - jan1) / 86_400_000 / 7) + 1;
+	return `${year}-W${pad(week)}`;
+}
+
+export function rollupPeriod(kind: RollupKind, date: string): RollupPeriod {
+	if (kind === "weekly") {
+		const weekday = new Date(`${date}T00:00:00Z`).getUTCDay() || 7;
+		const monday = addDays(date, 1 - weekday);
+		return { kind, period: isoWeek(date), days: Array.from({ length: 7 }, (_, i) => addDays(monday, i)) };
+	}
+	const month = date.slice(0, 7);
+	const days: string[] = [];
+	for (let day = `${month}-01`; day.startsWith(month); day = addDays(day, 1)) days.push(day);
+	return { kind, period: month, days };
+}
+
+export function rollupPath(config: MemoryConfig, kind: RollupKind, period: string): string {
+	return path.join(config.dailyDir, kind, `${period}.md`);
+}
+
+export function readDailyLogs(config: MemoryConfig, days: string[]): DailyLog[] {
+	const logs: DailyLog[] = [];
+	for (const date of days) {
+		const content = readFileSafe(dailyPath(config.dailyDir, date));
+		if (content?.trim()) logs.push({ date, content: content.trim() });
+	}
+	return logs;
+}
+
+/**
+ * Finished periods, newest first, that have daily logs but no rollup yet.
+ * Only the last `weeks` weeks and `months` months before today are
+ * considered, so a long history does not trigger a burst of model calls.
+ */
+export function pendingRollups(config: MemoryConfig, today: string, opts: { weeks?: number; months?: number } = {}): RollupPeriod[] {
+	const candidates: RollupPeriod[] = [];
+	let week = rollupPeriod("weekly", today);
+	for (let i = 0; i < (opts.weeks ?? 4); i++) {
+		week = rollupPeriod("weekly", addDays(week.days[0], -1));
+		candidates.push(week);
+	}
+	let month = rollupPeriod("monthly", today);
+	for (let i = 0; i < (opts.months ?? 2); i++) {
+		month = rollupPeriod("monthly", addDays(month.days[0], -1));
+		candidates.push(month);
+	}
+	return candidates.filter(p =>
+		!fs.existsSync(rollupPath(config, p.kind, p.period)) &&
+		p.days.some(d => fs.existsSync(dailyPath(config.dailyDir, d))),
+	);
+}
+
+/** First line of an entry that says something, without stamps, list markers or heading marks. */
+function entryHeadline(entry: string): string {
+	const line = entry.split("\n").map(l => l.trim()).find(l => l && !STAMP_LINE.test(l)) ?? "";
+	const text = line.replace(/^(#+|[-*]|- \[[ x]\])\s+/, "");
+	return text.length > 160 ? `${text.slice(0, 157)}...` : text;
+}
+
+/**
+ * Deterministic rollup used when no model is available: one heading per day
+ * with the headline of each entry, capped at `perDay` lines.
+ */
+export function fallbackRollup(logs: DailyLog[], perDay: number = 5): string {
+	const blocks: string[] = [];
+	for (const log of logs) {
+		const headlines = splitEntries(log.content).map(entryHeadline).filter(Boolean);
+		const lines = headlines.slice(0, perDay).map(h => `- ${h}`);
+		if (headlines.length > perDay) lines.push(`- ... and ${headlines.length - perDay} more (see daily/${log.date}.md)`);
+		blocks.push([`### ${log.date}`, "", ...lines].join("\n"));
+	}
+	return blocks.join("\n\n");
+}
+
+/** A rollup file: a generation stamp, a title naming the period and its date range, then the summary. */
+export function formatRollup(period: RollupPeriod, summary: string, opts: { generated: string; source: "llm" | "fallback" }): string {
+	const label = period.kind === "weekly" ? `Week ${period.period}` : `Month ${period.period}`;
+	const range = `${period.days[0]} to ${period.days[period.days.length - 1]}`;
+	return `<!-- rollup: ${period.kind} ${period.period}, generated ${opts.generated} (${opts.source}) -->\n# ${label} (${range})\n\n${summary.trim()}\n`;
+}
+
+/**
+ * The rollup of the ISO week before `today`'s, or null when that week has
+ * none. An older rollup is never returned, so after a break a stale summary
+ * isn't passed off as last week.
+ */
+export function lastWeekRollup(config: MemoryConfig, today: string = todayStr(config)): { period: string; content: string } | null {
+	const period = isoWeek(addDays(today, -7));
+	const content = readFileSafe(rollupPath(config, "weekly", period));
+	return content?.trim() ? { period, content } : null;
+}
+
+// --- Compaction flush ---
+
+/** Text parts of a user or assistant message; tool calls, images and thinking are skipped. */
+export function messageText(message: { content?: unknown }): string {
+	const c = message.content;
+	if (typeof c === "string") return c;
+	if (!Array.isArray(c)) return "";
+	return c.filter((p: any) => p?.type === "text").map((p: any) => p.text).join("\n");
+}
+
+export interface FlushNotes {
+	decisions: string[];
+	todos: string[];
+	facts: string[];
+	/** What the user asked for; only filled by the fallback. */
+	requests: string[];
+}
+
+const FLUSH_MESSAGE_CHARS = 2_000;
+const FLUSH_TRANSCRIPT_CHARS = 60_000;
+
+function clip(text: string, max: number): string {
+	return text.length > max ? `${text.slice(0, max - 3)}...` : text;
+}
+
+/**
+ * A plain-text transcript of the user and assistant messages, each clipped.
+ * When it is still too long the oldest messages are dropped.
+ */
+export function flushTranscript(messages: { role?: string; content?: unknown }[]): string {
+	const turns: string[] = [];
+	for (const m of messages) {
+		if (m.role !== "user" && m.role !== "assistant") continue;
+		const text = messageText(m).trim();
+		if (text) turns.push(`${m.role === "user" ? "User" : "Assistant"}: ${clip(text, FLUSH_MESSAGE_CHARS)}`);
+	}
+	let total = 0;
+	let start = turns.length;
+	while (start > 0 && total + turns[start - 1].length <= FLUSH_TRANSCRIPT_CHARS) total += turns[--start].length;
+	return turns.slice(start).join("\n\n");
+}
+
+function stringList(value: unknown): string[] {
+	if (!Array.isArray(value)) return [];
+	return value.filter((v): v is string => typeof v === "string").map(v => v.trim()).filter(Boolean);
+}
+
+/** Parse the model's JSON answer (optionally fenced); null when it is not the expected shape. */
+export function parseFlushResponse(text: string): FlushNotes | null {
+	const json = text.trim().replace(/^```(?:json)?\n([\s\S]*?)\n```$/, "$1");
+	let parsed: any;
+	try {
+		parsed = JSON.parse(json);
+	} catch {
+		return null;
+	}
+	if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) return null;
+	return { decisions: stringList(parsed.decisions), todos: stringList(parsed.todos), facts: stringList(parsed.facts), requests: [] };
+}
+
+/** Without a model: the first line of each user message, which at least records what was asked. */
+export function fallbackFlushNotes(messages: { role?: string; content?: unknown }[]): FlushNotes {
+	const requests: string[] = [];
+	for (const m of messages) {
+		if (m.role !== "user") continue;
+		const first = messageText(m).split("\n").map(l => l.trim()).find(Boolean);
+		if (first) requests.push(clip(first, 200));
+	}
+	return { decisions: [], todos: [], facts: [], requests };
+}
+
+/** A daily-log entry for the notes, or "" when there is nothing to record. */
+export function formatFlushEntry(notes: FlushNotes, opts: { timestamp: string; sessionId: string; messages: number; source: "llm" | "fallback" }): string {
+	const groups: [string, string[]][] = [
+		["Decisions", notes.decisions],
+		["Facts", notes.facts],
+		["Open TODOs", notes.todos],
+		["Requests", notes.requests],
+	];
+	const blocks = groups.filter(([, list]) => list.length > 0).map(([title, list]) => `**${title}**\n${list.map(l => `- ${l}`).join("\n")}`);
+	if (blocks.length === 0) return "";
+	const how = opts.source === "llm" ? "extracted" : "user requests only, no model available";
+	return `<!-- ${opts.timestamp} [${opts.sessionId}] -->\n### Before compaction (${opts.messages} messages, ${how})\n\n${blocks.join("\n\n")}`;
+}
+
+/** Append TODOs as open scratchpad items stamped with the session, skipping ones already open. */
+export function addFlushTodos(content: string, todos: string[], opts: { timestamp: string; sessionId: string }): { content: string; added: number } {
+	const items = parseScratchpad(content);
+	const sections = parseScratchpadSections(content);
+	const intros = parseScratchpadIntros(content);
+	assignItemIds(items);
+	const open = new Set(items.filter(i => !i.done).map(i => i.text.trim().toLowerCase()));
+	const taken = new Set(items.map(i => i.id!));
+	let added = 0;
+	for (const todo of todos) {
+		const key = todo.trim().toLowerCase();
+		if (!key || open.has(key)) continue;
+		open.add(key);
+		const id = newItemId(taken);
+		taken.add(id);
+		items.push({ done: false, text: todo.trim(), meta: `<!-- ${opts.timestamp} [${opts.sessionId}] -->`, id });
+		added++;
+	}
+	return { content: added > 0 ? serializeScratchpad(items, sections, intros) : content, added };
+}
+
+// --- Memory context builder ---
+
+export const TRUNCATION_MARKER = "[truncated \u2014 use memory_read]";
+
+const SECTION_SEPARATOR = "\n\n---\n\n";
+const CONTEXT_HEADER = "# Memory\n\n";
+const STAMP_LINE = /^<!--.*-->$/;
+
+/** Smallest useful slice of a single oversized entry; below this the section is omitted instead. */
+const MIN_ENTRY_CHARS = 200;
+
+interface ContextSection {
+	heading: string;
+	/** Shown above the entries and never trimmed. */
+	preamble?: string;
+	/** Entries ordered oldest first; truncation drops from the front. */
+	entries: string[];
+	joiner: string;
+	/** Path relative to the memory dir, for the truncation marker. */
+	source: string;
+}
+
+/**
+ * Split a memory file into entries, oldest first. Entries start at each
+ * `<!-- ts [sid] -->` stamp; files with fewer than two stamped entries fall
+ * back to blank-line separated paragraphs.
+ */
+export function splitEntries(content: string): string[] {
+	const entries: string[] = [];
+	let current: string[] = [];
+	for (const line of content.split("\n")) {
+		if (STAMP_LINE.test(line) && current.some(l => l.trim())) {
+			entries.push(current.join("\n").trim());
+			current = [];
+		}
+		current.push(line);
+	}
+	if (current.some(l => l.trim())) entries.push(current.join("\n").trim());
+
+	if (entries.length > 1) return entries;
+	return content.split(/\n\s*\n/).map(p => p.trim()).filter(Boolean);
+}
+
+function renderSection(section: ContextSection, entries: string[], marker?: string): string {
+	const parts = [`## ${section.heading}`];
+	if (section.preamble) parts.push(section.preamble);
+	if (marker) parts.push(marker);
+	parts.push(entries.join(section.joiner));
+	return parts.join("\n\n");
+}
+
+/**
+ * Render a section within `remaining` characters, dropping the oldest entries
+ * first. Returns null when not even a trimmed slice fits.
+ */
+function fitSection(section: ContextSection, remaining: number): string | null {
+	const full = renderSection(section, section.entries);
+	if (full.length <= remaining) return full;
+
+	const total = section.entries.length;
+	for (let dropped = 1; dropped < total; dropped++) {
+		const marker = `${TRUNCATION_MARKER} ${dropped} of ${total} older entries omitted from ${section.source}`;
+		const rendered = renderSection(section, section.entries.slice(dropped), marker);
+		if (rendered.length <= remaining) return rendered;
+	}
+
+	// Only the newest entry is left and it is still too big: keep its tail.
+	const newest = section.entries[total - 1];
+	const marker = total > 1
+		? `${TRUNCATION_MARKER} ${total - 1} of ${total} older entries and the start of the newest omitted from ${section.source}`
+		: `${TRUNCATION_MARKER} start of ${section.source} omitted`;
+	const available = remaining - renderSection(section, [], marker).length;
+	if (available < MIN_ENTRY_CHARS) return null;
+	let tail = newest.slice(newest.length - available);
+	const newline = tail.indexOf("\n");
+	if (newline !== -1 && newline < tail.length - 1) tail = tail.slice(newline + 1);
+	return renderSection(section, [tail], marker);
+}
+
+/** Open scratchpad items as a context section, or null when there are none. */
+function scratchpadSection(filePath: string, heading: string, source: string, config: MemoryConfig): ContextSection | null {
+	const content = readFileSafe(filePath);
+	if (!content?.trim()) return null;
+	const items = parseScratchpad(content);
+	const openItems = items.filter((i) => !i.done);
+	if (openItems.length === 0) return null;
+	return {
+		heading,
+		preamble: scratchpadAttention(openItems, todayStr(config)) || undefined,
+		entries: scratchpadOutline(openItemsWithAncestors(items), parseScratchpadSections(content), { ids: true }),
+		joiner: "\n",
+		source,
+	};
+}
+
+function collectContextSections(config: MemoryConfig): ContextSection[] {
+	const sections: ContextSection[] = [];
+
+	for (const fileName of config.contextFiles) {
+		const filePath = path.join(config.memoryDir, fileName);
+		const content = readFileSafe(filePath);
+		if (content?.trim()) {
+			sections.push({ heading: fileName, entries: splitEntries(content.trim()), joiner: "\n\n", source: fileName });
+		}
+	}
+
+	const longTerm = readFileSafe(config.memoryFile);
+	if (longTerm?.trim()) {
+		sections.push({ heading: "MEMORY.md (long-term)", entries: splitEntries(longTerm.trim()), joiner: "\n\n", source: "MEMORY.md" });
+	}
+
+	// Repo-local and per-project layers follow their global counterparts
+	const layers: { dir: string; heading: (file: string) => string; source: string }[] = [];
+	if (config.repoMemoryDir) {
+		layers.push({ dir: config.repoMemoryDir, heading: (file) => `Repo ${file} (shared, ${REPO_MEMORY_DIR})`, source: "repo" });
+	}
+	if (config.project) {
+		const name = path.basename(config.project.root);
+		layers.push({ dir: config.project.dir, heading: (file) => `Project ${file} (${name})`, source: `projects/${config.project.slug}` });
+	}
+
+	for (const layer of layers) {
+		const content = readFileSafe(path.join(layer.dir, "MEMORY.md"));
+		if (content?.trim()) {
+			sections.push({ heading: layer.heading("MEMORY.md"), entries: splitEntries(content.trim()), joiner: "\n\n", source: `${layer.source}/MEMORY.md` });
+		}
+	}
+
+	const scratchpad = scratchpadSection(config.scratchpadFile, "SCRATCHPAD.md (working context)", "SCRATCHPAD.md", config);
+	if (scratchpad) sections.push(scratchpad);
+	for (const layer of layers) {
+		const section = scratchpadSection(path.join(layer.dir, "SCRATCHPAD.md"), layer.heading("SCRATCHPAD.md"), `${layer.source}/SCRATCHPAD.md`, config);
+		if (section) sections.push(section);
+	}
+
+	const today = todayStr(config);
+	const yesterday = yesterdayStr(config);
+
+	const todayContent = readFileSafe(dailyPath(config.dailyDir, today));
+	if (todayContent?.trim()) {
+		sections.push({ heading: `Daily log: ${today} (today)`, entries: splitEntries(todayContent.trim()), joiner: "\n\n", source: `daily/${today}.md` });
+	}
+
+	const yesterdayContent = readFileSafe(dailyPath(config.dailyDir, yesterday));
+	if (yesterdayContent?.trim()) {
+		sections.push({ heading: `Daily log: ${yesterday} (yesterday)`, entries: splitEntries(yesterdayContent.trim()), joiner: "\n\n", source: `daily/${yesterday}.md` });
+	}
+
+	const lastWeek = lastWeekRollup(config, today);
+	if (lastWeek) {
+		const body = lastWeek.content.split("\n").filter(l => !STAMP_LINE.test(l) && !/^# /.test(l)).join("\n").trim();
+		if (body) {
+			sections.push({ heading: `Last week: ${lastWeek.period} (rollup)`, entries: [body], joiner: "\n\n", source: `daily/weekly/${lastWeek.period}.md` });
+		}
+	}
+
+	return sections;
+}
+
+/**
+ * Assemble the injected memory context. Sections are listed in priority order
+ * (context files, MEMORY.md, repo and project MEMORY.md, scratchpad, repo
+ * and project scratchpads, today, yesterday, last week's rollup); when
+ * `config.contextBudget` is set, each section gets what the higher-priority
+ * ones left over and is trimmed oldest-entries-first. The budget is a soft cap:
+ * truncation markers may add a few dozen characters.
+ */
+export function buildMemoryContext(config: MemoryConfig): string {
+	ensureDirs(config);
+	const sections = collectContextSections(config);
+
+	if (sections.length === 0) {
+		return "";
+	}
+
+	if (config.contextBudget <= 0) {
+		return `${CONTEXT_HEADER}${sections.map(s => renderSection(s, s.entries)).join(SECTION_SEPARATOR)}`;
+	}
+
+	const rendered: string[] = [];
+	const omitted: string[] = [];
+	let remaining = config.contextBudget - CONTEXT_HEADER.length;
+	for (const section of sections) {
+		const cost = rendered.length > 0 ? SECTION_SEPARATOR.length : 0;
+		const fitted = fitSection(section, remaining - cost);
+		if (fitted === null) {
+			omitted.push(section.source);
+			continue;
+		}
+		rendered.push(fitted);
+		remaining -= fitted.length + cost;
+	}
+
+	if (omitted.length > 0) {
+		rendered.push(`${TRUNCATION_MARKER} omitted to fit the context budget: ${omitted.join(", ")}`);
+	}
+
+	return `${CONTEXT_HEADER}${rendered.join(SECTION_SEPARATOR)}`;
+}
+
+// --- Git history ---
+
+export interface GitLogEntry {
+	hash: string;
+	/** Author date, ISO 8601. */
+	date: string;
+	subject: string;
+}
+
+/** `git log` format understood by parseGitLog: unit-separated hash, author date and subject. */
+export const GIT_LOG_FORMAT = "%H%x1f%aI%x1f%s";
+
+export function parseGitLog(output: string): GitLogEntry[] {
+	return output.split("\n").filter(l => l.trim()).map(line => {
+		const [hash, date, subject] = line.split("\x1f");
+		return { hash, date, subject: subject ?? "" };
+	});
+}
+
+export function formatGitLog(entries: GitLogEntry[]): string {
+	return entries.map(e => `${e.hash.slice(0, 8)}  ${e.date.replace("T", " ")}  ${e.subject}`).join("\n");
+}
+
+/** A commit-ish safe to pass to git: hashes, refs and `~`/`^` suffixes, never an option. */
+export function isSafeRevision(rev: string): boolean {
+	return /^[A-Za-z0-9_][\w.~^/-]*$/.test(rev) && !rev.includes("..");
+}
+
+// --- Session scanner ---
+
+const LOOKBACK_MS = 24 * 60 * 60 * 1000;
+
+export interface SessionInfo {
+	file: string;
+	timestamp: string;
+	title: string;
+	isChild: boolean;
+	parentSession?: string;
+	cwd: string;
+	cost: number;
+}
+
+/** System temp directories, where sub-agents and throwaway runs start their sessions. */
+export function defaultSessionExcludes(): string[] {
+	const dirs = ["/tmp", "/private/tmp", "/var/folders", "/private/var/folders", os.tmpdir().replace(/\\/g, "/")];
+	return [...new Set(dirs)];
+}
+
+/** Whether a glob matches `cwd` or one of its parent directories, so `/home/me/work` covers everything below it. */
+export function matchesProjectPattern(pattern: string, cwd: string): boolean {
+	const regex = globToRegExp(pattern.replace(/\\/g, "/").replace(/\/+$/, ""));
+	let dir = cwd.replace(/\\/g, "/").replace(/\/+$/, "");
+	while (dir) {
+		if (regex.test(dir)) return true;
+		const parent = dir.slice(0, dir.lastIndexOf("/"));
+		if (parent === dir) break;
+		dir = parent;
+	}
+	return false;
+}
+
+export function includesSessionCwd(config: MemoryConfig, cwd: string): boolean {
+	if (config.sessionInclude.length > 0 && !config.sessionInclude.some(p => matchesProjectPattern(p, cwd))) return false;
+	return !config.sessionExclude.some(p => matchesProjectPattern(p, cwd));
+}
+
+/**
+ * pi names each session directory after its cwd with separators turned into
+ * dashes (`--home-me-app--`). That is lossy, so this is only a fallback for
+ * transcripts whose header has no cwd.
+ */
+export function decodeSessionDir(name: string): string {
+	const inner = name.replace(/^--/, "").replace(/--$/, "");
+	// Windows drive paths encode as `C--Users-me` (colon and backslash both become dashes)
+	return /^[A-Za-z]--/.test(inner) ? `${inner[0]}:/${inner.slice(3).replace(/-/g, "/")}` : `/${inner.replace(/-/g, "/")}`;
+}
+
+/** The JSON header on a transcript's first line, reading only the start of the file. */
+function readSessionHeader(filePath: string): any {
+	const fd = fs.openSync(filePath, "r");
+	try {
+		const buffer = Buffer.alloc(4096);
+		const read = fs.readSync(fd, buffer, 0, buffer.length, 0);
+		return JSON.parse(buffer.toString("utf-8", 0, read).split("\n")[0]);
+	} finally {
+		fs.closeSync(fd);
+	}
+}
+
+/**
+ * Transcripts in any session directory modified since `sinceMs`, whose cwd
+ * passes the include/exclude patterns (unless `unfiltered`). Works for any
+ * platform's encoded cwd.
+ */
+export function discoverSessionFiles(config: MemoryConfig, sinceMs: number, opts: { unfiltered?: boolean } = {}): string[] {
+	const found: string[] = [];
+	let dirs: string[];
+	try {
+		dirs = fs.readdirSync(config.sessionsDir).sort();
+	} catch {
+		return found;
+	}
+	for (const dir of dirs) {
+		const dirPath = path.join(config.sessionsDir, dir);
+		let files: string[];
+		try {
+			files = fs.readdirSync(dirPath).filter(f => f.endsWith(".jsonl")).sort();
+		} catch {
+			continue;
+		}
+		for (const file of files) {
+			const filePath = path.join(dirPath, file);
+			try {
+				if (fs.statSync(filePath).mtimeMs < sinceMs) continue;
+				if (opts.unfiltered) {
+					found.push(filePath);
+					continue;
+				}
+				let cwd = "";
+				try { cwd = readSessionHeader(filePath).cwd ?? ""; } catch {}
+				if (includesSessionCwd(config, cwd || decodeSessionDir(dir))) found.push(filePath);
+			} catch {}
+		}
+	}
+	return found;
+}
+
+/** Title, cost and cwd of a session transcript; null for sessions started before the lookback window (default 24h). */
+export async function scanSession(filePath: string, opts: { lookbackMs?: number } = {}): Promise<SessionInfo | null> {
+	try {
+		const cutoffTime = Date.now() - (opts.lookbackMs ?? LOOKBACK_MS);
+		const rl = createInterface({ input: createReadStream(filePath), crlfDelay: Infinity });
+		let lineNum = 0;
+		let header: any = null;
+		let title = "";
+		let totalCost = 0;
+
+		for await (const line of rl) {
+			lineNum++;
+			if (lineNum === 1) {
+				try {
+					header = JSON.parse(line);
+				} catch { return null; }
+				if (header.timestamp && new Date(header.timestamp).getTime() < cutoffTime) {
+					rl.close();
+					return null;
+				}
+				continue;
+			}
+			try {
+				const entry = JSON.parse(line);
+				if (entry.type === "session_info" && entry.name) {
+					title = entry.name;
+				}
+				if (entry.type === "message" && entry.message?.role === "assistant" && entry.message?.usage?.cost?.total) {
+					totalCost += entry.message.usage.cost.total;
+				}
+			} catch { continue; }
+		}
+
+		if (!header?.timestamp) return null;
+
+		if (!title) {
+			const rl2 = createInterface({ input: createReadStream(filePath), crlfDelay: Infinity });
+			for await (const line of rl2) {
+				try {
+					const entry = JSON.parse(line);
+					if (entry.type === "message" && entry.message?.role === "user") {
+						const content = entry.message.content;
+						if (typeof content === "string") {
+							title = content.slice(0, 80);
+						} else if (Array.isArray(content)) {
+							const textPart = content.find((c: any) => c.type === "text");
+							if (textPart) title = textPart.text.slice(0, 80);
+						}
+						break;
+					}
+				} catch { continue; }
+			}
+		}
+
+		return {
+			file: filePath,
+			timestamp: header.timestamp,
+			title: title || "(untitled)",
+			isChild: !!header.parentSession,
+			parentSession: header.parentSession || undefined,
+			cwd: header.cwd || "",
+			cost: totalCost,
+		};
+	} catch { return null; }
+}
+
+export function isHousekeeping(title: string): boolean {
+	const lower = title.toLowerCase();
+	const patterns = [
+		/^(clear|review|read)\s+(done|scratchpad|today|daily)/,
+		/^-\s+(no done|scratchpad|cleared|reviewed|task is)/,
+		/^scratchpad\s+(content|management|maintenance|reviewed|items)/,
+		/^\(untitled\)$/,
+		/^\/\w+$/,
+		/^write daily log/,
+	];
+	return patterns.some(p => p.test(lower));
+}
+
+// --- Session index ---
+
+const SESSION_INDEX_VERSION = 1;
+
+export interface UsageTotals {
+	/** Assistant messages that reported usage. */
+	messages: number;
+	input: number;
+	output: number;
+	cacheRead: number;
+	cacheWrite: number;
+	/** Dollars, from `usage.cost.total`. */
+	cost: number;
+}
+
+export interface IndexedSession {
+	mtimeMs: number;
+	size: number;
+	/** Byte offset just past the last complete line parsed; growing files resume here. */
+	offset: number;
+	id: string;
+	timestamp: string;
+	cwd: string;
+	parentSession?: string;
+	/** Latest `session_info` name. */
+	name: string;
+	/** First 80 characters of the first user message, the title when there is no name. */
+	firstUser: string;
+	/** Usage keyed by `<day> <provider>/<model>`, day in the configured timezone. */
+	usage: Record<string, UsageTotals>;
+}
+
+export interface SessionIndex {
+	version: number;
+	sessions: Record<string, IndexedSession>;
+}
+
+export function sessionIndexPath(config: MemoryConfig): string {
+	return path.join(config.memoryDir, ".index", "sessions.json");
+}
+
+export function emptyUsage(): UsageTotals {
+	return { messages: 0, input: 0, output: 0, cacheRead: 0, cacheWrite: 0, cost: 0 };
+}
+
+export function addUsage(into: UsageTotals, from: UsageTotals): void {
+	into.messages += from.messages;
+	into.input += from.input;
+	into.output += from.output;
+	into.cacheRead += from.cacheRead;
+	into.cacheWrite += from.cacheWrite;
+	into.cost += from.cost;
+}
+
+function loadSessionIndex(indexPath: string): SessionIndex {
+	try {
+		const index = JSON.parse(fs.readFileSync(indexPath, "utf-8"));
+		if (index?.version === SESSION_INDEX_VERSION && index.sessions) return index;
+	} catch {}
+	return { version: SESSION_INDEX_VERSION, sessions: {} };
+}
+
+/**
+ * Stream the complete lines from `offset` on into `onLine`; returns the
+ * offset past the last newline. Reading is async so a large transcript
+ * doesn't hold up the event loop.
+ */
+async function readLinesFrom(filePath: string, offset: number, onLine: (line: string) => void): Promise<number> {
+	let pending = Buffer.alloc(0);
+	let consumed = offset;
+	for await (const chunk of createReadStream(filePath, { start: offset })) {
+		let data = pending.length > 0 ? Buffer.concat([pending, chunk as Buffer]) : chunk as Buffer;
+		let newline: number;
+		while ((newline = data.indexOf(10)) !== -1) {
+			onLine(data.toString("utf-8", 0, newline));
+			consumed += newline + 1;
+			data = data.subarray(newline + 1);
+		}
+		pending = Buffer.from(data);
+	}
+	// A trailing partial line is still being written; it is parsed on the next update
+	return consumed;
+}
+
+function applySessionLine(config: MemoryConfig, session: IndexedSession, line: string): void {
+	let entry: any;
+	try { entry = JSON.parse(line); } catch { return; }
+	if (entry.type === "session") {
+		session.id = entry.id ?? "";
+		session.timestamp = entry.timestamp ?? "";
+		session.cwd = entry.cwd ?? "";
+		session.parentSession = entry.parentSession || undefined;
+		return;
+	}
+	if (entry.type === "session_info" && entry.name) {
+		session.name = entry.name;
+		return;
+	}
+	if (entry.type !== "message") return;
+	const message = entry.message;
+	if (message?.role === "user" && !session.firstUser) {
+		session.firstUser = messageText(message).slice(0, 80);
+	}
+	const usage = message?.role === "assistant" ? message.usage : undefined;
+	if (!usage) return;
+	const when = new Date(message.timestamp ?? entry.timestamp ?? session.timestamp);
+	const day = isNaN(when.getTime()) ? "unknown" : todayStr(config, when);
+	const key = `${day} ${message.provider ?? "unknown"}/${message.model ?? "unknown"}`;
+	const totals = session.usage[key] ??= emptyUsage();
+	addUsage(totals, {
+		messages: 1,
+		input: usage.input ?? 0,
+		output: usage.output ?? 0,
+		cacheRead: usage.cacheRead ?? 0,
+		cacheWrite: usage.cacheWrite ?? 0,
+		cost: usage.cost?.total ?? 0,
+	});
+}
+
+function newIndexedSession(stat: fs.Stats): IndexedSession {
+	return { mtimeMs: stat.mtimeMs, size: stat.size, offset: 0, id: "", timestamp: "", cwd: "", name: "", firstUser: "", usage: {} };
+}
+
+/**
+ * Bring the session index up to date for `files`. Unchanged transcripts
+ * (same size and mtime) are skipped, growing ones are parsed from where the
+ * last update stopped, and anything else is rescanned. Entries for deleted
+ * transcripts are dropped.
+ */
+export async function updateSessionIndex(config: MemoryConfig, files: string[]): Promise<SessionIndex> {
+	const indexPath = sessionIndexPath(config);
+	const index = loadSessionIndex(indexPath);
+	let changed = false;
+
+	for (const file of files) {
+		let stat: fs.Stats;
+		try { stat = fs.statSync(file); } catch { continue; }
+		const cached = index.sessions[file];
+		if (cached && cached.mtimeMs === stat.mtimeMs && cached.size === stat.size) continue;
+
+		// Resume only when the file grew and still starts with the same header. The
+		// update is built on a copy, so a failed read leaves the cached entry intact.
+		let session = newIndexedSession(stat);
+		if (cached?.id && cached.offset > 0 && stat.size >= cached.offset) {
+			try {
+				if (readSessionHeader(file).id === cached.id) session = structuredClone(cached);
+			} catch {}
+		}
+		try {
+			session.offset = await readLinesFrom(file, session.offset, line => applySessionLine(config, session, line));
+		} catch {
+			continue;
+		}
+		session.mtimeMs = stat.mtimeMs;
+		session.size = stat.size;
+		index.sessions[file] = session;
+		changed = true;
+	}
+
+	for (const file of Object.keys(index.sessions)) {
+		if (!fs.existsSync(file)) {
+			delete index.sessions[file];
+			changed = true;
+		}
+	}
+
+	if (changed) {
+		try {
+			fs.mkdirSync(path.dirname(indexPath), { recursive: true });
+			// Keep the index out of PI_AUTOCOMMIT commits
+			const ignore = path.join(path.dirname(indexPath), ".gitignore");
+			if (!fs.existsSync(ignore)) fs.writeFileSync(ignore, "*\n", "utf-8");
+			atomicWriteFileSync(indexPath, JSON.stringify(index));
+		} catch {}
+	}
+
+	return index;
+}
+
+export function sessionTotals(session: IndexedSession): UsageTotals {
+	const totals = emptyUsage();
+	for (const usage of Object.values(session.usage)) addUsage(totals, usage);
+	return totals;
+}
+
+/** The dashboard's view of an indexed session, matching what scanSession returns. */
+export function indexedSessionInfo(file: string, session: IndexedSession): SessionInfo {
+	return {
+		file,
+		timestamp: session.timestamp,
+		title: session.name || session.firstUser || "(untitled)",
+		isChild: !!session.parentSession,
+		parentSession: session.parentSession,
+		cwd: session.cwd,
+		cost: sessionTotals(session).cost,
+	};
+}
+
+// --- Cost analytics ---
+
+/** Raised for a malformed memory_costs date range; the message is shown to the model or user. */
+export class CostReportError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = "CostReportError";
+	}
+}
+
+/** Resolve a report's `since`/`until` (default: the last 7 days); throws CostReportError when they are invalid. */
+export function resolveCostRange(config: MemoryConfig, since: string = "7d", until: string = "today"): { since: string; until: string } {
+	let range: { since: string; until: string };
+	try {
+		range = { since: resolveDate(since, "since", config), until: resolveDate(until, "until", config) };
+	} catch (err) {
+		throw err instanceof QuerySyntaxError ? new CostReportError(err.message) : err;
+	}
+	if (range.since > range.until) throw new CostReportError(`'since' (${range.since}) is after 'until' (${range.until}).`);
+	return range;
+}
+
+export type CostGroupBy = "day" | "project" | "model" | "kind";
+
+export const COST_GROUPS: CostGroupBy[] = ["day", "project", "model", "kind"];
+
+export interface CostRow extends UsageTotals {
+	/** Day, cwd, `provider/model`, or `parent` / `sub-agent`. */
+	key: string;
+	/** Sessions with usage in this row. */
+	sessions: number;
+}
+
+export interface CostReport {
+	since: string;
+	until: string;
+	totals: CostRow;
+	groups: Partial<Record<CostGroupBy, CostRow[]>>;
+}
+
+/**
+ * Aggregate indexed usage between `since` and `until` (inclusive days) by
+ * the requested groupings. Rows are sorted by day for `day` and by cost,
+ * highest first, for the others. `project` is a glob on the session's cwd.
+ */
+export function buildCostReport(
+	index: SessionIndex,
+	opts: { since: string; until: string; groupBy?: CostGroupBy[]; project?: string },
+): CostReport {
+	const groupBy = opts.groupBy?.length ? opts.groupBy : COST_GROUPS;
+	const rows = new Map<string, { row: CostRow; seen: Set<string> }>();
+	const totals: CostRow = { key: "total", sessions: 0, ...emptyUsage() };
+	const totalSeen = new Set<string>();
+
+	const add = (group: string, key: string, file: string, usage: UsageTotals) => {
+		const id = `${group}\0${key}`;
+		let entry = rows.get(id);
+		if (!entry) {
+			entry = { row: { key, sessions: 0, ...emptyUsage() }, seen: new Set() };
+			rows.set(id, entry);
+		}
+		addUsage(entry.row, usage);
+		if (!entry.seen.has(file)) {
+			entry.seen.add(file);
+			entry.row.sessions++;
+		}
+	};
+
+	for (const [file, session] of Object.entries(index.sessions)) {
+		if (opts.project && !matchesProjectPattern(opts.project, session.cwd)) continue;
+		for (const [bucket, usage] of Object.entries(session.usage)) {
+			const space = bucket.indexOf(" ");
+			const day = bucket.slice(0, space);
+			const model = bucket.slice(space + 1);
+			if (day < opts.since || day > opts.until) continue;
+			addUsage(totals, usage);
+			if (!totalSeen.has(file)) {
+				totalSeen.add(file);
+				totals.sessions++;
+			}
+			const keys: Record<CostGroupBy, string> = {
+				day,
+				project: session.cwd || "(unknown)",
+				model,
+				kind: session.parentSession ? "sub-agent" : "parent",
+			};
+			for (const group of groupBy) add(group, keys[group], file, usage);
+		}
+	}
+
+	const groups: CostReport["groups"] = {};
+	for (const group of groupBy) {
+		const list = [...rows.entries()].filter(([id]) => id.startsWith(`${group}\0`)).map(([, e]) => e.row);
+		groups[group] = group === "day" ? list.sort((a, b) => a.key.localeCompare(b.key)) : list.sort((a, b) => b.cost - a.cost);
+	}
+	return { since: opts.since, until: opts.until, totals, groups };
+}
+
+const COST_GROUP_LABELS: Record<CostGroupBy, string> = { day: "Day", project: "Project", model: "Model", kind: "Session kind" };
+
+function formatTokens(n: number): string {
+	if (n >= 1_000_000) return `${(n / 1_000_000).toFixed(1)}M`;
+	if (n >= 1_000) return `${(n / 1_000).toFixed(1)}k`;
+	return String(n);
+}
+
+function costTableRow(cells: string[]): string {
+	return `| ${cells.map(c => c.replace(/\|/g, "\\|")).join(" | ")} |`;
+}
+
+/** The report as Markdown: a totals line, then one table per grouping. */
+export function formatCostReport(report: CostReport): string {
+	const t = report.totals;
+	const parts = [
+		`**${report.since} to ${report.until}**: $${t.cost.toFixed(2)} across ${t.sessions} session(s), ${t.messages} model call(s); ` +
+			`${formatTokens(t.input)} input, ${formatTokens(t.output)} output, ${formatTokens(t.cacheRead)} cache read, ${formatTokens(t.cacheWrite)} cache write tokens.`,
+	];
+	if (t.messages === 0) return parts[0];
+	for (const group of COST_GROUPS) {
+		const rows = report.groups[group];
+		if (!rows) continue;
+		const table = [
+			costTableRow([COST_GROUP_LABELS[group], "Sessions", "Calls", "Input", "Output", "Cache read", "Cache write", "Cost"]),
+			"|---|---:|---:|---:|---:|---:|---:|---:|",
+			...rows.map(r => costTableRow([
+				r.key, String(r.sessions), String(r.messages), formatTokens(r.input), formatTokens(r.output),
+				formatTokens(r.cacheRead), formatTokens(r.cacheWrite), `$${r.cost.toFixed(2)}`,
+			])),
+		];
+		parts.push(`### By ${COST_GROUP_LABELS[group].toLowerCase()}\n\n${table.join("\n")}`);
+	}
+	return parts.join("\n\n");
+}
+
+// --- Session summaries ---
+
+export interface SessionSummary {
+	/** Full session id from the transcript header. */
+	id: string;
+	/** Header timestamp (ISO). */
+	started: string;
+	title: string;
+	cwd: string;
+	cost: number;
+	subAgents: number;
+	/** Paths passed to edit and write tool calls, relative to the cwd when inside it. */
+	files: string[];
+	/** First line of the last assistant reply. */
+	outcome: string;
+}
+
+const FILE_TOOLS = new Set(["edit", "write"]);
+const SESSION_SUMMARY_MARKER = /session:(\S+)(?=\s*-->$)/;
+
+/** Session id, files touched and last reply, read from the transcript in one pass. */
+function readSessionDetails(filePath: string): { id: string; cwd: string; files: string[]; outcome: string; userMessages: number } | null {
+	const content = readFileSafe(filePath);
+	if (!content) return null;
+	let id = "";
+	let cwd = "";
+	const files: string[] = [];
+	let outcome = "";
+	let userMessages = 0;
+	for (const line of content.split("\n")) {
+		let entry: any;
+		try { entry = JSON.parse(line); } catch { continue; }
+		if (entry.type === "session") {
+			id = entry.id ?? "";
+			cwd = entry.cwd ?? "";
+			continue;
+		}
+		if (entry.type !== "message") continue;
+		const message = entry.message;
+		if (message?.role === "user") userMessages++;
+		if (message?.role !== "assistant" || !Array.isArray(message.content)) continue;
+		for (const part of message.content) {
+			const target = part?.type === "toolCall" && FILE_TOOLS.has(part.name) ? part.arguments?.path : undefined;
+			if (typeof target !== "string") continue;
+			const rel = cwd && path.isAbsolute(target) ? path.relative(cwd, target) : target;
+			const name = rel.startsWith("..") ? target : rel;
+			if (!files.includes(name)) files.push(name);
+		}
+		const reply = messageText(message).split("\n").map(l => l.trim()).find(Boolean);
+		if (reply) outcome = clip(reply, 200);
+	}
+	return id ? { id, cwd, files, outcome, userMessages } : null;
+}
+
+/** Sub-agent sessions whose header names `sessionFile` as parent, among transcripts modified since `sinceMs`. */
+export function countChildSessions(config: MemoryConfig, sessionFile: string, sinceMs: number): number {
+	let count = 0;
+	for (const file of listSessionFiles(config)) {
+		try {
+			if (fs.statSync(file.path).mtimeMs < sinceMs) continue;
+			if (readSessionHeader(file.path).parentSession === sessionFile) count++;
+		} catch {}
+	}
+	return count;
+}
+
+/**
+ * Everything a daily-log summary of a session needs. Null for sub-agent
+ * sessions, sessions without a user message and housekeeping sessions.
+ */
+export async function summarizeSession(config: MemoryConfig, sessionFile: string): Promise<SessionSummary | null> {
+	const info = await scanSession(sessionFile, { lookbackMs: Infinity });
+	if (!info || info.isChild || isHousekeeping(info.title)) return null;
+	const details = readSessionDetails(sessionFile);
+	if (!details || details.userMessages === 0) return null;
+	return {
+		id: details.id,
+		started: info.timestamp,
+		title: info.title,
+		cwd: info.cwd,
+		cost: info.cost,
+		subAgents: countChildSessions(config, sessionFile, new Date(info.timestamp).getTime()),
+		files: details.files,
+		outcome: details.outcome,
+	};
+}
+
+export function formatSessionSummary(summary: SessionSummary, opts: { timestamp: string; maxFiles?: number }): string {
+	const maxFiles = opts.maxFiles ?? 8;
+	const lines = [
+		`<!-- ${opts.timestamp} [${shortSessionId(summary.id)}] session:${summary.id} -->`,
+		`### Session: ${summary.title.split("\n")[0].trim()}`,
+		`- cwd: ${summary.cwd || "(unknown)"}`,
+	];
+	const cost = [`$${summary.cost.toFixed(2)}`];
+	if (summary.subAgents > 0) cost.push(`${summary.subAgents} sub-agent${summary.subAgents > 1 ? "s" : ""}`);
+	lines.push(`- cost: ${cost.join(", ")}`);
+	if (summary.files.length > 0) {
+		const more = summary.files.length > maxFiles ? ` (+${summary.files.length - maxFiles} more)` : "";
+		lines.push(`- files: ${summary.files.slice(0, maxFiles).join(", ")}${more}`);
+	}
+	if (summary.outcome) lines.push(`- outcome: ${summary.outcome}`);
+	return lines.join("\n");
+}
+
+/** Whether a daily log already holds a summary entry for the session. */
+export function hasSessionSummary(content: string, sessionId: string): boolean {
+	return content.split("\n").some(line => STAMP_LINE.test(line) && line.match(SESSION_SUMMARY_MARKER)?.[1] === sessionId);
+}
+
+/**
+ * Replace the session's summary entry (its stamp line up to the next stamp or
+ * heading) or append one, so a resumed session keeps a single entry.
+ */
+export function upsertSessionSummary(content: string, sessionId: string, entry: string): string {
+	const lines = content.split("\n");
+	const start = lines.findIndex(line => STAMP_LINE.test(line) && line.match(SESSION_SUMMARY_MARKER)?.[1] === sessionId);
+	if (start === -1) return appendEntry(content, entry);
+	let end = start + 1;
+	while (end < lines.length && !STAMP_LINE.test(lines[end]) && !/^#{1,2} /.test(lines[end])) end++;
+	// Keep the blank line(s) that separated the old entry from what follows
+	while (end > start + 1 && !lines[end - 1].trim()) end--;
+	return [...lines.slice(0, start), ...entry.split("\n"), ...lines.slice(end)].join("\n");
+}
+
+// --- Search ---
+
+export interface SearchHit {
+	file: string;
+	line: number;
+	text: string;
+	/** BM25 relevance score; only set by ranked search. */
+	score?: number;
+}
+
+export interface SearchResult {
+	fileMatches: string[];
+	lineResults: SearchHit[];
+}
+
+export type SearchScope = "root" | "daily" | "notes" | "project" | "repo" | "sessions";
+
+export const DEFAULT_SEARCH_SCOPES: SearchScope[] = ["root", "daily", "notes", "project", "repo"];
+
+interface MemoryFile {
+	path: string;
+	/** Path relative to the memory dir, e.g. `daily/2026-02-18.md`. */
+	name: string;
+	scope: Exclude<SearchScope, "sessions">;
+	/** Date from a daily log's filename. */
+	date?: string;
+}
+
+/**
+ * All searchable .md files: root, daily/ (plus its weekly/ and monthly/
+ * rollups), notes/, then the current project's and the repo-local layer's
+ * root and notes/ — each directory sorted by name.
+ */
+export function listMemoryFiles(config: MemoryConfig): MemoryFile[] {
+	const files: MemoryFile[] = [];
+	function addDir(dir: string, scope: MemoryFile["scope"], prefix: string) {
+		try {
+			for (const f of fs.readdirSync(dir).filter(f => f.endsWith(".md")).sort()) {
+				const date = scope === "daily" ? f.match(/^(\d{4}-\d{2}-\d{2})\.md$/)?.[1] : undefined;
+				files.push({ path: path.join(dir, f), name: `${prefix}${f}`, scope, date });
+			}
+		} catch {}
+	}
+	addDir(config.memoryDir, "root", "");
+	addDir(config.dailyDir, "daily", "daily/");
+	addDir(path.join(config.dailyDir, "weekly"), "daily", "daily/weekly/");
+	addDir(path.join(config.dailyDir, "monthly"), "daily", "daily/monthly/");
+	addDir(config.notesDir, "notes", "notes/");
+	if (config.project) {
+		const prefix = `projects/${config.project.slug}/`;
+		addDir(config.project.dir, "project", prefix);
+		addDir(path.join(config.project.dir, "notes"), "project", `${prefix}notes/`);
+	}
+	if (config.repoMemoryDir) {
+		addDir(config.repoMemoryDir, "repo", "repo/");
+		addDir(path.join(config.repoMemoryDir, "notes"), "repo", "repo/notes/");
+	}
+	return files;
+}
+
+// --- Search filters ---
+
+export interface SearchFilters {
+	/** Areas to search. Default: root, daily, notes, project, repo. */
+	scope?: SearchScope[];
+	/** Inclusive lower date bound: YYYY-MM-DD, 'today', 'yesterday' or '<N>d' (N days ago). */
+	since?: string;
+	/** Inclusive upper date bound, same formats as `since`. */
+	until?: string;
+	/** Glob on the display path (e.g. `notes/*.md`); without a slash it matches the basename. */
+	file?: string;
+}
+
+interface ResolvedFilters {
+	scopes: Set<SearchScope>;
+	since?: string;
+	until?: string;
+	matchesFile: (name: string) => boolean;
+}
+
+export function globToRegExp(glob: string): RegExp {
+	let source = "";
+	for (let i = 0; i < glob.length; i++) {
+		const c = glob[i];
+		if (c === "*" && glob[i + 1] === "*") {
+			source += ".*";
+			i++;
+		} else if (c === "*") {
+			source += "[^/]*";
+		} else if (c === "?") {
+			source += "[^/]";
+		} else {
+			source += c.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+		}
+	}
+	return new RegExp(`^${source}$`, "i");
+}
+
+/** Resolve `YYYY-MM-DD`, `today`, `yesterday` or `<N>d` (N days ago); throws QuerySyntaxError otherwise. */
+function resolveDate(value: string, field: string, config: MemoryConfig): string {
+	const v = value.trim().toLowerCase();
+	if (v === "today") return todayStr(config);
+	if (v === "yesterday") return yesterdayStr(config);
+	const relative = v.match(/^(\d+)d$/);
+	if (relative) return addDays(todayStr(config), -parseInt(relative[1], 10));
+	if (/^\d{4}-\d{2}-\d{2}$/.test(v) && !isNaN(Date.parse(`${v}T00:00:00Z`))) return v;
+	throw new QuerySyntaxError(`Invalid date "${value}" for '${field}': use YYYY-MM-DD, 'today', 'yesterday' or '<N>d'.`);
+}
+
+function resolveFilters(config: MemoryConfig, filters: SearchFilters): ResolvedFilters {
+	const scopes = new Set(filters.scope?.length ? filters.scope : DEFAULT_SEARCH_SCOPES);
+	const since = filters.since ? resolveDate(filters.since, "since", config) : undefined;
+	const until = filters.until ? resolveDate(filters.until, "until", config) : undefined;
+	if (since && until && since > until) {
+		throw new QuerySyntaxError(`'since' (${since}) is after 'until' (${until}).`);
+	}
+	let matchesFile = (_name: string) => true;
+	if (filters.file) {
+		const regex = globToRegExp(filters.file);
+		const onBasename = !filters.file.includes("/");
+		matchesFile = (name) => regex.test(onBasename ? path.posix.basename(name) : name);
+	}
+	return { scopes, since, until, matchesFile };
+}
+
+function hasDateFilter(filters: ResolvedFilters): boolean {
+	return !!(filters.since || filters.until);
+}
+
+/** Undated content never matches a date filter. */
+function inDateRange(date: string | undefined, filters: ResolvedFilters): boolean {
+	if (!hasDateFilter(filters)) return true;
+	if (!date) return false;
+	return (!filters.since || date >= filters.since) && (!filters.until || date <= filters.until);
+}
+
+function includesFile(file: MemoryFile, filters: ResolvedFilters): boolean {
+	if (!filters.scopes.has(file.scope) || !filters.matchesFile(file.name)) return false;
+	// Daily logs outside the range can be skipped without reading them
+	return file.date === undefined || inDateRange(file.date, filters);
+}
+
+/** Date written in a `<!-- ts [sid] -->` stamp line, if the line is one. */
+export function stampDate(line: string): string | undefined {
+	if (!STAMP_LINE.test(line)) return undefined;
+	return line.match(/\b(\d{4}-\d{2}-\d{2})\b/)?.[1];
+}
+
+// --- Session transcripts ---
+
+interface SessionMessage {
+	/** 1-based JSONL line number. */
+	line: number;
+	text: string;
+	date?: string;
+}
+
+interface SessionFile {
+	path: string;
+	/** Display path, e.g. `sessions/<dir>/<id>.jsonl`. */
+	name: string;
+}
+
+function listSessionFiles(config: MemoryConfig): SessionFile[] {
+	const files: SessionFile[] = [];
+	try {
+		for (const dir of fs.readdirSync(config.sessionsDir).sort()) {
+			const dirPath = path.join(config.sessionsDir, dir);
+			try {
+				for (const f of fs.readdirSync(dirPath).filter(f => f.endsWith(".jsonl")).sort()) {
+					files.push({ path: path.join(dirPath, f), name: `sessions/${dir}/${f}` });
+				}
+			} catch {}
+		}
+	} catch {}
+	return files;
+}
+
+/** User and assistant text from a session transcript, dated in the configured timezone. */
+function readSessionMessages(filePath: string, config: MemoryConfig): SessionMessage[] {
+	const content = readFileSafe(filePath);
+	if (!content) return [];
+	const messages: SessionMessage[] = [];
+	const lines = content.split("\n");
+	let headerDate: string | undefined;
+	for (let i = 0; i < lines.length; i++) {
+		let entry: any;
+		try { entry = JSON.parse(lines[i]); } catch { continue; }
+		const ts = entry.timestamp ? new Date(entry.timestamp) : null;
+		const date = ts && !isNaN(ts.getTime()) ? todayStr(config, ts) : headerDate;
+		if (i === 0) { headerDate = date; continue; }
+		if (entry.type !== "message") continue;
+		const role = entry.message?.role;
+		if (role !== "user" && role !== "assistant") continue;
+		const text = messageText(entry.message);
+		if (text.trim()) messages.push({ line: i + 1, text, date });
+	}
+	return messages;
+}
+
+// --- Query language ---
+
+/** Raised for malformed memory_search queries; the message is shown to the model. */
+export class QuerySyntaxError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = "QuerySyntaxError";
+	}
+}
+
+export type QueryClause =
+	| { kind: "term" | "phrase"; value: string; negate: boolean }
+	| { kind: "regex"; regex: RegExp; negate: boolean };
+
+/** Disjunction of conjunctions: a line matches if every clause of any group matches. */
+export interface ParsedQuery {
+	groups: QueryClause[][];
+}
+
+/**
+ * Parse a memory_search query. Whitespace-separated terms are ANDed;
+ * `"quoted phrases"` match literally, `-term` excludes, `OR` separates
+ * alternatives and `/regex/` matches a pattern. All matching is case-insensitive.
+ */
+export function parseQuery(query: string): ParsedQuery {
+	const groups: QueryClause[][] = [[]];
+	let i = 0;
+
+	while (i < query.length) {
+		if (/\s/.test(query[i])) { i++; continue; }
+
+		const start = i;
+		let negate = false;
+		if (query[i] === "-") {
+			negate = true;
+			i++;
+			if (i >= query.length || /\s/.test(query[i])) {
+				throw new QuerySyntaxError(`Expected a term after '-' at position ${start + 1}.`);
+			}
+		}
+
+		if (query[i] === '"') {
+			const end = query.indexOf('"', i + 1);
+			if (end === -1) throw new QuerySyntaxError(`Unterminated quote starting at position ${i + 1}.`);
+			const value = query.slice(i + 1, end);
+			if (!value.trim()) throw new QuerySyntaxError(`Empty phrase at position ${i + 1}.`);
+			groups[groups.length - 1].push({ kind: "phrase", value: value.toLowerCase(), negate });
+			i = end + 1;
+			continue;
+		}
+
+		if (query[i] === "/") {
+			let end = i + 1;
+			while (end < query.length && query[end] !== "/") end += query[end] === "\\" ? 2 : 1;
+			if (end >= query.length) throw new QuerySyntaxError(`Unterminated regex starting at position ${i + 1}.`);
+			const source = query.slice(i + 1, end);
+			if (!source) throw new QuerySyntaxError(`Empty regex at position ${i + 1}.`);
+			let regex: RegExp;
+			try {
+				regex = new RegExp(source, "i");
+			} catch (err: any) {
+				throw new QuerySyntaxError(`Invalid regex /${source}/: ${err.message}`);
+			}
+			groups[groups.length - 1].push({ kind: "regex", regex, negate });
+			i = end + 1;
+			continue;
+		}
+
+		let end = i;
+		while (end < query.length && !/\s/.test(query[end])) end++;
+		const word = query.slice(i, end);
+		i = end;
+
+		if (word === "OR" && !negate) {
+			if (groups[groups.length - 1].length === 0) {
+				throw new QuerySyntaxError(`'OR' at position ${start + 1} needs a term on both sides.`);
+			}
+			groups.push([]);
+			continue;
+		}
+		groups[groups.length - 1].push({ kind: "term", value: word.toLowerCase(), negate });
+	}
+
+	if (groups.length === 1 && groups[0].length === 0) {
+		throw new QuerySyntaxError("Empty query.");
+	}
+	if (groups[groups.length - 1].length === 0) {
+		throw new QuerySyntaxError("'OR' at the end of the query needs a term after it.");
+	}
+	for (const group of groups) {
+		if (group.every(c => c.negate)) {
+			throw new QuerySyntaxError("Each alternative needs at least one term that is not excluded.");
+		}
+	}
+
+	return { groups };
+}
+
+function clauseMatches(clause: QueryClause, text: string, lower: string): boolean {
+	const hit = clause.kind === "regex" ? clause.regex.test(text) : lower.includes(clause.value);
+	return clause.negate ? !hit : hit;
+}
+
+export function matchesQuery(query: ParsedQuery, text: string): boolean {
+	const lower = text.toLowerCase();
+	return query.groups.some(group => group.every(c => clauseMatches(c, text, lower)));
+}
+
+/** True if `text` matches at least one non-excluded clause — used to pick the line to show. */
+function mentionsQuery(query: ParsedQuery, text: string): boolean {
+	const lower = text.toLowerCase();
+	return query.groups.some(group => group.some(c => !c.negate && clauseMatches(c, text, lower)));
+}
+
+/** Tokens from positive terms and phrases, for relevance scoring. */
+function queryTokens(query: ParsedQuery): string[] {
+	const tokens = new Set<string>();
+	for (const group of query.groups) {
+		for (const clause of group) {
+			if (!clause.negate && clause.kind !== "regex") {
+				for (const token of tokenize(clause.value)) tokens.add(token);
+			}
+		}
+	}
+	return [...tokens];
+}
+
+/**
+ * Line-by-line search in file order. Lines are dated by their daily log's
+ * filename or the nearest preceding stamp. Throws QuerySyntaxError for
+ * malformed queries or filters.
+ */
+export function searchMemory(config: MemoryConfig, query: string, maxResults: number = 20, filters: SearchFilters = {}): SearchResult {
+	const parsed = parseQuery(query);
+	const resolved = resolveFilters(config, filters);
+	const fileMatches: string[] = [];
+	const lineResults: SearchHit[] = [];
+
+	for (const file of listMemoryFiles(config)) {
+		if (lineResults.length >= maxResults) break;
+		if (!includesFile(file, resolved)) continue;
+		if (matchesQuery(parsed, file.name) && inDateRange(file.date, resolved) && !fileMatches.includes(file.name)) {
+			fileMatches.push(file.name);
+		}
+		const content = readFileSafe(file.path);
+		if (!content) continue;
+		const lines = content.split("\n");
+		let entryDate: string | undefined;
+		for (let i = 0; i < lines.length && lineResults.length < maxResults; i++) {
+			entryDate = stampDate(lines[i]) ?? entryDate;
+			if (!inDateRange(file.date ?? entryDate, resolved)) continue;
+			if (matchesQuery(parsed, lines[i])) {
+				lineResults.push({ file: file.name, line: i + 1, text: lines[i].trimEnd() });
+			}
+		}
+	}
+
+	if (resolved.scopes.has("sessions")) {
+		for (const file of listSessionFiles(config)) {
+			if (lineResults.length >= maxResults) break;
+			if (!resolved.matchesFile(file.name)) continue;
+			for (const message of readSessionMessages(file.path, config)) {
+				if (lineResults.length >= maxResults) break;
+				if (!inDateRange(message.date, resolved)) continue;
+				const hit = message.text.split("\n").find(l => matchesQuery(parsed, l));
+				if (hit !== undefined) lineResults.push({ file: file.name, line: message.line, text: hit.trimEnd() });
+			}
+		}
+	}
+
+	return { fileMatches, lineResults };
+}
+
+// --- Ranked search (BM25) ---
+
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+const SEARCH_INDEX_VERSION = 2;
+
+interface IndexedChunk {
+	/** 1-based line number of the chunk's first line. */
+	line: number;
+	lines: string[];
+	terms: Record<string, number>;
+	length: number;
+	/** Date of the stamp that owns the chunk. */
+	date?: string;
+}
+
+interface IndexedFile {
+	mtimeMs: number;
+	size: number;
+	chunks: IndexedChunk[];
+}
+
+interface SearchIndex {
+	version: number;
+	files: Record<string, IndexedFile>;
+}
+
+export function searchIndexPath(config: MemoryConfig): string {
+	return path.join(config.memoryDir, ".index", "search.json");
+}
+
+export function tokenize(text: string): string[] {
+	return text.toLowerCase().match(/[\p{L}\p{N}_]+/gu)?.filter(t => t.length > 1) ?? [];
+}
+
+function termCounts(text: string): { terms: Record<string, number>; length: number } {
+	const terms: Record<string, number> = {};
+	let length = 0;
+	for (const token of tokenize(text)) {
+		terms[token] = (terms[token] ?? 0) + 1;
+		length++;
+	}
+	return { terms, length };
+}
+
+/** Split a file into paragraph chunks. Stamp comments end a chunk and are not indexed. */
+function chunkFile(content: string): IndexedChunk[] {
+	const chunks: IndexedChunk[] = [];
+	let start = 0;
+	let current: string[] = [];
+	let date: string | undefined;
+
+	const flush = () => {
+		if (current.length === 0) return;
+		const { terms, length } = termCounts(current.join("\n"));
+		if (length > 0) chunks.push({ line: start + 1, lines: current, terms, length, date });
+		current = [];
+	};
+
+	const lines = content.split("\n");
+	for (let i = 0; i < lines.length; i++) {
+		const line = lines[i].trimEnd();
+		if (!line.trim() || STAMP_LINE.test(line)) {
+			flush();
+			date = stampDate(line) ?? date;
+			continue;
+		}
+		if (current.length === 0) start = i;
+		current.push(line);
+	}
+	flush();
+	return chunks;
+}
+
+function loadSearchIndex(indexPath: string): SearchIndex {
+	try {
+		const index = JSON.parse(fs.readFileSync(indexPath, "utf-8"));
+		if (index?.version === SEARCH_INDEX_VERSION && index.files) return index;
+	} catch {}
+	return { version: SEARCH_INDEX_VERSION, files: {} };
+}
+
+/**
+ * Bring the on-disk search index up to date. Only files whose mtime or size
+ * changed since the last run are re-read; deleted files are dropped.
+ */
+export function updateSearchIndex(config: MemoryConfig): SearchIndex {
+	const indexPath = searchIndexPath(config);
+	const index = loadSearchIndex(indexPath);
+	let changed = false;
+	const seen = new Set<string>();
+
+	for (const file of listMemoryFiles(config)) {
+		seen.add(file.name);
+		let stat: fs.Stats;
+		try { stat = fs.statSync(file.path); } catch { continue; }
+		const cached = index.files[file.name];
+		if (cached && cached.mtimeMs === stat.mtimeMs && cached.size === stat.size) continue;
+		index.files[file.name] = { mtimeMs: stat.mtimeMs, size: stat.size, chunks: chunkFile(readFileSafe(file.path) ?? "") };
+		changed = true;
+	}
+
+	for (const name of Object.keys(index.files)) {
+		if (!seen.has(name)) {
+			delete index.files[name];
+			changed = true;
+		}
+	}
+
+	if (changed) {
+		try {
+			fs.mkdirSync(path.dirname(indexPath), { recursive: true });
+			// Keep the index out of PI_AUTOCOMMIT commits
+			const ignore = path.join(path.dirname(indexPath), ".gitignore");
+			if (!fs.existsSync(ignore)) fs.writeFileSync(ignore, "*\n", "utf-8");
+			atomicWriteFileSync(indexPath, JSON.stringify(index));
+		} catch {}
+	}
+
+	return index;
+}
+
+/**
+ * BM25-ranked search over paragraph chunks of every memory file (and session
+ * messages when the `sessions` scope is requested), best first. Chunks must
+ * satisfy the query (see parseQuery); positive terms drive the score.
+ */
+export function rankedSearch(config: MemoryConfig, query: string, maxResults: number = 20, filters: SearchFilters = {}): SearchResult {
+	const parsed = parseQuery(query);
+	const resolved = resolveFilters(config, filters);
+	const queryTerms = queryTokens(parsed);
+	const index = updateSearchIndex(config);
+
+	const fileMatches: string[] = [];
+	const all: { file: string; chunk: IndexedChunk }[] = [];
+	for (const file of listMemoryFiles(config)) {
+		const entry = index.files[file.name];
+		if (!entry || !includesFile(file, resolved)) continue;
+		if (matchesQuery(parsed, file.name) && inDateRange(file.date, resolved)) fileMatches.push(file.name);
+		for (const chunk of entry.chunks) {
+			if (inDateRange(file.date ?? chunk.date, resolved)) all.push({ file: file.name, chunk });
+		}
+	}
+
+	if (resolved.scopes.has("sessions")) {
+		for (const file of listSessionFiles(config)) {
+			if (!resolved.matchesFile(file.name)) continue;
+			for (const message of readSessionMessages(file.path, config)) {
+				if (!inDateRange(message.date, resolved)) continue;
+				const lines = message.text.split("\n").map(l => l.trimEnd()).filter(l => l.trim());
+				const { terms, length } = termCounts(message.text);
+				all.push({ file: file.name, chunk: { line: message.line, lines, terms, length: Math.max(length, 1) } });
+			}
+		}
+	}
+
+	if (all.length === 0) return { fileMatches, lineResults: [] };
+
+	const avgLength = all.reduce((sum, c) => sum + c.chunk.length, 0) / all.length;
+	const idf = new Map<string, number>();
+	for (const term of queryTerms) {
+		const df = all.filter(c => c.chunk.terms[term]).length;
+		idf.set(term, Math.log(1 + (all.length - df + 0.5) / (df + 0.5)));
+	}
+
+	const scored: SearchHit[] = [];
+	for (const { file, chunk } of all) {
+		if (!matchesQuery(parsed, chunk.lines.join("\n"))) continue;
+
+		let score = 0;
+		for (const term of queryTerms) {
+			const tf = chunk.terms[term];
+			if (!tf) continue;
+			const norm = tf + BM25_K1 * (1 - BM25_B + BM25_B * (chunk.length / avgLength));
+			score += idf.get(term)! * (tf * (BM25_K1 + 1)) / norm;
+		}
+
+		// Point at the first line in the chunk that mentions the query; session
+		// messages keep their JSONL line number.
+		let offset = chunk.lines.findIndex(l => mentionsQuery(parsed, l));
+		if (offset === -1) offset = 0;
+		const line = file.startsWith("sessions/") ? chunk.line : chunk.line + offset;
+		scored.push({ file, line, text: chunk.lines[offset], score });
+	}
+
+	scored.sort((a, b) => b.score! - a.score! || a.file.localeCompare(b.file) || a.line - b.line);
+	return { fileMatches, lineResults: scored.slice(0, maxResults) };
+}
+
+// --- Search snippets ---
+
+export interface SnippetLine {
+	line: number;
+	text: string;
+	hit: boolean;
+}
+
+export interface SnippetWindow {
+	lines: SnippetLine[];
+	/** Nearest Markdown heading above the window's first hit. */
+	heading?: string;
+	/** Contents of the `<!-- ts [sid] -->` stamp that owns the first hit. */
+	stamp?: string;
+	score?: number;
+}
+
+export interface FileHits {
+	file: string;
+	windows: SnippetWindow[];
+	/** Best score among the file's hits. */
+	score?: number;
+}
+
+/** Map a search display path (`MEMORY.md`, `daily/…`, `notes/…`, `sessions/…`) back to disk. */
+export function resolveDisplayPath(config: MemoryConfig, name: string): string {
+	const [head, ...rest] = name.split("/");
+	if (rest.length === 0) return path.join(config.memoryDir, name);
+	if (head === "daily") return path.join(config.dailyDir, ...rest);
+	if (head === "notes") return path.join(config.notesDir, ...rest);
+	if (head === "sessions") return path.join(config.sessionsDir, ...rest);
+	if (head === "repo" && config.repoMemoryDir) return path.join(config.repoMemoryDir, ...rest);
+	return path.join(config.memoryDir, name);
+}
+
+function maxScore(a: number | undefined, b: number | undefined): number | undefined {
+	if (a === undefined) return b;
+	if (b === undefined) return a;
+	return Math.max(a, b);
+}
+
+function enclosingContext(lines: string[], index: number): { heading?: string; stamp?: string } {
+	let heading: string | undefined;
+	let stamp: string | undefined;
+	for (let i = index - 1; i >= 0 && (!heading || !stamp); i--) {
+		if (!heading && /^#{1,6}\s/.test(lines[i])) heading = lines[i].trim();
+		if (!stamp && STAMP_LINE.test(lines[i].trim())) stamp = lines[i].trim().replace(/^<!--\s*|\s*-->$/g, "");
+	}
+	return { heading, stamp };
+}
+
+/**
+ * Group hits by file (files ordered by their first hit) and expand each hit
+ * with `contextLines` of surrounding text. Overlapping or adjacent windows
+ * are merged. Session transcript hits are kept as single lines.
+ */
+export function groupSearchHits(config: MemoryConfig, hits: SearchHit[], contextLines: number = 0): FileHits[] {
+	const byFile = new Map<string, SearchHit[]>();
+	for (const hit of hits) {
+		if (!byFile.has(hit.file)) byFile.set(hit.file, []);
+		byFile.get(hit.file)!.push(hit);
+	}
+
+	const groups: FileHits[] = [];
+	for (const [file, fileHits] of byFile) {
+		fileHits.sort((a, b) => a.line - b.line);
+		const content = file.startsWith("sessions/") ? null : readFileSafe(resolveDisplayPath(config, file));
+		const windows: SnippetWindow[] = [];
+		let score: number | undefined;
+
+		if (content === null) {
+			for (const hit of fileHits) {
+				windows.push({ lines: [{ line: hit.line, text: hit.text, hit: true }], score: hit.score });
+				score = maxScore(score, hit.score);
+			}
+			groups.push({ file, windows, score });
+			continue;
+		}
+
+		const lines = content.split("\n");
+		let current: { start: number; end: number; hitLines: Set<number>; first: number; score?: number } | null = null;
+		const flush = () => {
+			if (!current) return;
+			const windowLines: SnippetLine[] = [];
+			for (let n = current.start; n <= current.end; n++) {
+				windowLines.push({ line: n, text: (lines[n - 1] ?? "").trimEnd(), hit: current.hitLines.has(n) });
+			}
+			windows.push({ lines: windowLines, ...enclosingContext(lines, current.first - 1), score: current.score });
+		};
+
+		for (const hit of fileHits) {
+			const start = Math.max(1, hit.line - contextLines);
+			const end = Math.min(lines.length, hit.line + contextLines);
+			score = maxScore(score, hit.score);
+			if (current && start <= current.end + 1) {
+				current.end = Math.max(current.end, end);
+				current.hitLines.add(hit.line);
+				current.score = maxScore(current.score, hit.score);
+				continue;
+			}
+			flush();
+			current = { start, end, hitLines: new Set([hit.line]), first: hit.line, score: hit.score };
+		}
+		flush();
+		groups.push({ file, windows, score });
+	}
+	return groups;
+}
+
+/** Render grouped hits grep-style: `N: hit`, `N- context`, `--` between windows. */
+export function formatFileHits(groups: FileHits[]): string {
+	return groups.map(group => {
+		const header = group.score !== undefined ? `${group.file} [${group.score.toFixed(2)}]` : group.file;
+		const windows = group.windows.map(w => {
+			const out: string[] = [];
+			const context = [w.heading, w.stamp].filter(Boolean).join(" \u00b7 ");
+			if (context) out.push(`  (${context})`);
+			for (const l of w.lines) out.push(`  ${l.line}${l.hit ? ":" : "-"} ${l.text}`);
+			return out.join("\n");
+		});
+		return `${header}\n${windows.join("\n  --\n")}`;
+	}).join("\n\n");
 }
@@ -0,0 +1,112 @@
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import {
+	messageText,
+	flushTranscript,
+	parseFlushResponse,
+	fallbackFlushNotes,
+	formatFlushEntry,
+	addFlushTodos,
+	parseScratchpad,
+	buildConfig,
+} from "../lib.ts";
+
+const messages = [
+	{ role: "user", content: "Switch the API client to fetch\nit keeps timing out" },
+	{ role: "assistant", content: [{ type: "text", text: "Done, replaced axios." }, { type: "toolCall", name: "edit" }] },
+	{ role: "toolResult", content: [{ type: "text", text: "ok" }] },
+	{ role: "user", content: [{ type: "text", text: "Now add retries" }, { type: "image", data: "..." }] },
+];
+
+describe("messageText", () => {
+	it("joins text parts and skips everything else", () => {
+		assert.strictEqual(messageText(messages[1]), "Done, replaced axios.");
+		assert.strictEqual(messageText({ content: undefined }), "");
+	});
+});
+
+describe("flushTranscript", () => {
+	it("keeps user and assistant turns only", () => {
+		assert.strictEqual(
+			flushTranscript(messages),
+			"User: Switch the API client to fetch\nit keeps timing out\n\nAssistant: Done, replaced axios.\n\nUser: Now add retries",
+		);
+	});
+
+	it("drops the oldest turns when too long", () => {
+		const long = Array.from({ length: 100 }, (_, i) => ({ role: "user", content: `${i} ${"x".repeat(1500)}` }));
+		const transcript = flushTranscript(long);
+		assert.ok(transcript.length <= 60_000);
+		assert.ok(transcript.endsWith(`99 ${"x".repeat(1500)}`));
+		assert.ok(!transcript.startsWith("User: 0 "));
+	});
+});
+
+describe("parseFlushResponse", () => {
+	it("accepts plain or fenced JSON and ignores junk entries", () => {
+		const notes = parseFlushResponse('```json\n{"decisions": ["use fetch"], "todos": ["add retries", 3, " "], "facts": []}\n```');
+		assert.deepStrictEqual(notes, { decisions: ["use fetch"], todos: ["add retries"], facts: [], requests: [] });
+	});
+
+	it("returns null for anything else", () => {
+		assert.strictEqual(parseFlushResponse("Here are the notes: ..."), null);
+		assert.strictEqual(parseFlushResponse("[1, 2]"), null);
+	});
+});
+
+describe("fallbackFlushNotes", () => {
+	it("records the first line of each user message", () => {
+		assert.deepStrictEqual(fallbackFlushNotes(messages).requests, ["Switch the API client to fetch", "Now add retries"]);
+	});
+});
+
+describe("formatFlushEntry", () => {
+	const opts = { timestamp: "2026-02-18 10:00:00+00:00", sessionId: "abc12345", messages: 4, source: "llm" as const };
+
+	it("stamps the entry with the session and lists non-empty groups", () => {
+		const entry = formatFlushEntry({ decisions: ["use fetch"], todos: ["add retries"], facts: [], requests: [] }, opts);
+		assert.strictEqual(entry, [
+			"<!-- 2026-02-18 10:00:00+00:00 [abc12345] -->",
+			"### Before compaction (4 messages, extracted)",
+			"",
+			"**Decisions**",
+			"- use fetch",
+			"",
+			"**Open TODOs**",
+			"- add retries",
+		].join("\n"));
+	});
+
+	it("is empty when there is nothing to record", () => {
+		assert.strictEqual(formatFlushEntry({ decisions: [], todos: [], facts: [], requests: [] }, opts), "");
+	});
+});
+
+describe("addFlushTodos", () => {
+	it("adds open items stamped with the session and skips ones already open", () => {
+		const existing = "- [ ] Add retries\n- [x] Write docs\n";
+		const result = addFlushTodos(existing, ["add retries", "Write docs", "Bump version"], { timestamp: "2026-02-18 10:00:00+00:00", sessionId: "abc12345" });
+		assert.strictEqual(result.added, 2);
+		const items = parseScratchpad(result.content);
+		assert.deepStrictEqual(items.map(i => [i.text, i.done]), [["Add retries", false], ["Write docs", true], ["Write docs", false], ["Bump version", false]]);
+		assert.strictEqual(items[3].meta, "<!-- 2026-02-18 10:00:00+00:00 [abc12345] -->");
+		assert.ok(items[3].id);
+	});
+
+	it("leaves the file untouched when nothing is new", () => {
+		const existing = "- [ ] Add retries\n";
+		assert.deepStrictEqual(addFlushTodos(existing, ["Add retries"], { timestamp: "t", sessionId: "s" }), { content: existing, added: 0 });
+	});
+});
+
+describe("compaction flush config", () => {
+	it("is off unless PI_COMPACTION_FLUSH is set", () => {
+		assert.strictEqual(buildConfig({ HOME: "/tmp" }).compactionFlush, false);
+		assert.strictEqual(buildConfig({ HOME: "/tmp", PI_COMPACTION_FLUSH: "1" }).compactionFlush, true);
+	});
+
+	it("only accepts provider/model for PI_FLUSH_MODEL", () => {
+		assert.strictEqual(buildConfig({ HOME: "/tmp", PI_FLUSH_MODEL: "openai/gpt-4.1-mini" }).flushModel, "openai/gpt-4.1-mini");
+		assert.strictEqual(buildConfig({ HOME: "/tmp", PI_FLUSH_MODEL: "gpt-4.1-mini" }).flushModel, undefined);
+	});
+});
@@ -1,7 +1,7 @@
 import { describe, it } from "node:test";
 import assert from "node:assert";
 import * as path from "node:path";
-import { buildConfig } from "../lib.ts";
+import { buildConfig, systemTimezone } from "../lib.ts";
 
 describe("buildConfig", () => {
 	it("uses defaults when no env vars set", () => {
@@ -11,8 +11,13 @@ describe("buildConfig", () => {
 		assert.strictEqual(config.scratchpadFile, "/home/testuser/.pi/agent/memory/SCRATCHPAD.md");
 		assert.strictEqual(config.dailyDir, "/home/testuser/.pi/agent/memory/daily");
 		assert.strictEqual(config.notesDir, "/home/testuser/.pi/agent/memory/notes");
+		assert.strictEqual(config.sessionsDir, "/home/testuser/.pi/agent/sessions");
 		assert.deepStrictEqual(config.contextFiles, []);
 		assert.strictEqual(config.autocommit, false);
+		assert.strictEqual(config.contextBudget, 0);
+		assert.strictEqual(config.timezone, systemTimezone());
+		assert.strictEqual(config.rolloverHour, 0);
+		assert.strictEqual(config.repoMemory, true);
 	});
 
 	it("respects PI_MEMORY_DIR override", () => {
@@ -29,6 +34,11 @@ describe("buildConfig", () => {
 		assert.strictEqual(config.memoryDir, "/home/x/.pi/agent/memory");
 	});
 
+	it("respects PI_SESSIONS_DIR override", () => {
+		const config = buildConfig({ HOME: "/home/x", PI_SESSIONS_DIR: "/data/sessions" });
+		assert.strictEqual(config.sessionsDir, "/data/sessions");
+	});
+
 	it("parses PI_CONTEXT_FILES as comma-separated list", () => {
 		const config = buildConfig({ HOME: "/home/x", PI_CONTEXT_FILES: "SOUL.md, AGENTS.md, HEARTBEAT.md" });
 		assert.deepStrictEqual(config.contextFiles, ["SOUL.md", "AGENTS.md", "HEARTBEAT.md"]);
@@ -64,6 +74,32 @@ describe("buildConfig", () => {
 		assert.strictEqual(config.autocommit, false);
 	});
 
+	it("converts PI_CONTEXT_BUDGET tokens into a character budget", () => {
+		const config = buildConfig({ HOME: "/home/x", PI_CONTEXT_BUDGET: "2000" });
+		assert.strictEqual(config.contextBudget, 8000);
+	});
+
+	it("treats invalid or non-positive PI_CONTEXT_BUDGET as unlimited", () => {
+		assert.strictEqual(buildConfig({ HOME: "/home/x", PI_CONTEXT_BUDGET: "lots" }).contextBudget, 0);
+		assert.strictEqual(buildConfig({ HOME: "/home/x", PI_CONTEXT_BUDGET: "-5" }).contextBudget, 0);
+	});
+
+	it("respects PI_TIMEZONE", () => {
+		const config = buildConfig({ HOME: "/home/x", PI_TIMEZONE: "America/Los_Angeles" });
+		assert.strictEqual(config.timezone, "America/Los_Angeles");
+	});
+
+	it("falls back to the system zone for an unknown PI_TIMEZONE", () => {
+		const config = buildConfig({ HOME: "/home/x", PI_TIMEZONE: "Mars/Olympus_Mons" });
+		assert.strictEqual(config.timezone, systemTimezone());
+	});
+
+	it("parses PI_DAY_ROLLOVER_HOUR and ignores out-of-range values", () => {
+		assert.strictEqual(buildConfig({ HOME: "/home/x", PI_DAY_ROLLOVER_HOUR: "4" }).rolloverHour, 4);
+		assert.strictEqual(buildConfig({ HOME: "/home/x", PI_DAY_ROLLOVER_HOUR: "24" }).rolloverHour, 0);
+		assert.strictEqual(buildConfig({ HOME: "/home/x", PI_DAY_ROLLOVER_HOUR: "soon" }).rolloverHour, 0);
+	});
+
 	it("falls back to ~ when HOME is undefined", () => {
 		const config = buildConfig({});
 		assert.strictEqual(config.memoryDir, "~/.pi/agent/memory");
@@ -0,0 +1,58 @@
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { cleanConsolidation, diffStat, proposalPaths, writeProposal, unifiedDiff, projectConfig, resolveProject } from "../lib.ts";
+import { makeTempDir, cleanup, makeConfig } from "./helpers.ts";
+
+describe("cleanConsolidation", () => {
+	it("unwraps a markdown code fence", () => {
+		assert.strictEqual(cleanConsolidation("```markdown\n## Preferences\n- tabs\n```"), "## Preferences\n- tabs");
+		assert.strictEqual(cleanConsolidation("```\n## Decisions\n- postgres\n```\n"), "## Decisions\n- postgres");
+	});
+
+	it("drops entry stamps and the blank runs they leave", () => {
+		const output = "## Preferences\n\n<!-- 2026-02-18 10:00:00+00:00 [abc12345] -->\n\n- tabs\n";
+		assert.strictEqual(cleanConsolidation(output), "## Preferences\n\n- tabs");
+	});
+
+	it("leaves fences inside the document alone", () => {
+		const doc = "## Snippets\n\n```sh\nnpm test\n```\n\n## Other\n- x";
+		assert.strictEqual(cleanConsolidation(doc), doc);
+	});
+});
+
+describe("diffStat", () => {
+	it("counts changed lines but not file headers", () => {
+		const diff = unifiedDiff("a\nb\nc\n", "a\nB\nc\nd\n", "MEMORY.md");
+		assert.deepStrictEqual(diffStat(diff), { added: 2, removed: 1 });
+		assert.deepStrictEqual(diffStat(""), { added: 0, removed: 0 });
+	});
+});
+
+describe("proposalPaths", () => {
+	it("keeps proposals next to the layer's MEMORY.md", () => {
+		const config = makeConfig("/tmp/x");
+		assert.deepStrictEqual(proposalPaths(config), {
+			file: path.join(config.memoryDir, ".proposals", "MEMORY.md"),
+			diff: path.join(config.memoryDir, ".proposals", "MEMORY.md.diff"),
+		});
+		const project = projectConfig(config, resolveProject(config, "/tmp/x/repo"));
+		assert.strictEqual(proposalPaths(project).file, path.join(path.dirname(project.memoryFile), ".proposals", "MEMORY.md"));
+	});
+});
+
+describe("writeProposal", () => {
+	it("writes the proposal and diff in a git-ignored directory", () => {
+		const tmpDir = makeTempDir();
+		try {
+			const config = makeConfig(tmpDir);
+			const paths = writeProposal(config, "new", "-old\n+new");
+			assert.strictEqual(fs.readFileSync(paths.file, "utf-8"), "new");
+			assert.strictEqual(fs.readFileSync(paths.diff, "utf-8"), "-old\n+new\n");
+			assert.strictEqual(fs.readFileSync(path.join(path.dirname(paths.file), ".gitignore"), "utf-8"), "*\n");
+		} finally {
+			cleanup(tmpDir);
+		}
+	});
+});
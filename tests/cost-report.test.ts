@@ -0,0 +1,105 @@
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import {
+	buildCostReport,
+	formatCostReport,
+	resolveCostRange,
+	CostReportError,
+	emptyUsage,
+	todayStr,
+	addDays,
+	type SessionIndex,
+	type IndexedSession,
+	type UsageTotals,
+} from "../lib.ts";
+import { makeConfig } from "./helpers.ts";
+
+function usage(cost: number, tokens: number = 100): UsageTotals {
+	return { messages: 1, input: tokens, output: tokens / 10, cacheRead: tokens * 10, cacheWrite: 0, cost };
+}
+
+function session(cwd: string, buckets: Record<string, UsageTotals>, parentSession?: string): IndexedSession {
+	return { mtimeMs: 0, size: 0, offset: 0, id: cwd, timestamp: "", cwd, parentSession, name: "", firstUser: "", usage: buckets };
+}
+
+const index: SessionIndex = {
+	version: 1,
+	sessions: {
+		"/s/app/1.jsonl": session("/home/me/app", {
+			"2026-02-17 anthropic/claude-sonnet": usage(1),
+			"2026-02-18 anthropic/claude-sonnet": usage(2),
+			"2026-02-18 openai/gpt-4.1-mini": usage(0.5),
+		}),
+		"/s/tmp/2.jsonl": session("/tmp/pi-sub", { "2026-02-18 anthropic/claude-haiku": usage(0.25) }, "/s/app/1.jsonl"),
+		"/s/web/3.jsonl": session("/home/me/web", { "2026-02-10 anthropic/claude-sonnet": usage(5) }),
+	},
+};
+
+describe("buildCostReport", () => {
+	it("totals usage inside the date range only", () => {
+		const report = buildCostReport(index, { since: "2026-02-17", until: "2026-02-18" });
+		assert.strictEqual(report.totals.cost, 3.75);
+		assert.strictEqual(report.totals.sessions, 2);
+		assert.strictEqual(report.totals.messages, 4);
+		assert.strictEqual(report.totals.input, 400);
+		assert.strictEqual(report.totals.cacheRead, 4000);
+	});
+
+	it("breaks down by day, project, model and session kind", () => {
+		const { groups } = buildCostReport(index, { since: "2026-02-17", until: "2026-02-18" });
+		assert.deepStrictEqual(groups.day!.map(r => [r.key, r.cost, r.sessions]), [["2026-02-17", 1, 1], ["2026-02-18", 2.75, 2]]);
+		assert.deepStrictEqual(groups.project!.map(r => [r.key, r.cost]), [["/home/me/app", 3.5], ["/tmp/pi-sub", 0.25]]);
+		assert.deepStrictEqual(groups.model!.map(r => [r.key, r.cost, r.messages]), [
+			["anthropic/claude-sonnet", 3, 2],
+			["openai/gpt-4.1-mini", 0.5, 1],
+			["anthropic/claude-haiku", 0.25, 1],
+		]);
+		assert.deepStrictEqual(groups.kind!.map(r => [r.key, r.cost]), [["parent", 3.5], ["sub-agent", 0.25]]);
+	});
+
+	it("limits groupings and filters by project glob", () => {
+		const report = buildCostReport(index, { since: "2026-02-01", until: "2026-02-28", groupBy: ["model"], project: "/home/me" });
+		assert.deepStrictEqual(Object.keys(report.groups), ["model"]);
+		assert.strictEqual(report.totals.cost, 8.5);
+		assert.strictEqual(report.totals.sessions, 2);
+	});
+});
+
+describe("formatCostReport", () => {
+	it("renders a summary line and one table per grouping", () => {
+		const text = formatCostReport(buildCostReport(index, { since: "2026-02-18", until: "2026-02-18", groupBy: ["kind"] }));
+		assert.strictEqual(text, [
+			"**2026-02-18 to 2026-02-18**: $2.75 across 2 session(s), 3 model call(s); 300 input, 30 output, 3.0k cache read, 0 cache write tokens.",
+			"",
+			"### By session kind",
+			"",
+			"| Session kind | Sessions | Calls | Input | Output | Cache read | Cache write | Cost |",
+			"|---|---:|---:|---:|---:|---:|---:|---:|",
+			"| parent | 1 | 2 | 200 | 20 | 2.0k | 0 | $2.50 |",
+			"| sub-agent | 1 | 1 | 100 | 10 | 1.0k | 0 | $0.25 |",
+		].join("\n"));
+	});
+
+	it("is just the summary line when nothing was used", () => {
+		const text = formatCostReport(buildCostReport({ version: 1, sessions: {} }, { since: "2026-02-18", until: "2026-02-18" }));
+		assert.ok(text.startsWith("**2026-02-18 to 2026-02-18**: $0.00 across 0 session(s)"));
+		assert.ok(!text.includes("|"));
+		assert.deepStrictEqual(emptyUsage().cost, 0);
+	});
+});
+
+describe("resolveCostRange", () => {
+	const config = makeConfig("/tmp/mem");
+
+	it("accepts explicit and relative dates", () => {
+		assert.deepStrictEqual(resolveCostRange(config, "2026-02-01", "2026-02-28"), { since: "2026-02-01", until: "2026-02-28" });
+		const { since, until } = resolveCostRange(config);
+		assert.strictEqual(until, todayStr(config));
+		assert.strictEqual(since, addDays(until, -7));
+	});
+
+	it("reports bad dates and reversed ranges as cost report errors", () => {
+		assert.throws(() => resolveCostRange(config, "last week"), (err: Error) => err instanceof CostReportError && /Invalid date "last week" for 'since'/.test(err.message));
+		assert.throws(() => resolveCostRange(config, "2026-03-01", "2026-02-01"), CostReportError);
+	});
+});
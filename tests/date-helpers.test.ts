@@ -1,6 +1,6 @@
 import { describe, it } from "node:test";
 import assert from "node:assert";
-import { todayStr, yesterdayStr, nowTimestamp, shortSessionId, dailyPath } from "../lib.ts";
+import { todayStr, yesterdayStr, nowTimestamp, parseTimestamp, shortSessionId, dailyPath, addDays } from "../lib.ts";
 
 describe("todayStr", () => {
 	it("returns YYYY-MM-DD format", () => {
@@ -8,9 +8,25 @@ describe("todayStr", () => {
 		assert.match(result, /^\d{4}-\d{2}-\d{2}$/);
 	});
 
-	it("matches current date", () => {
+	it("matches current UTC date in the UTC zone", () => {
 		const expected = new Date().toISOString().slice(0, 10);
-		assert.strictEqual(todayStr(), expected);
+		assert.strictEqual(todayStr({ timezone: "UTC" }), expected);
+	});
+
+	it("uses the configured timezone for the day boundary", () => {
+		// 2026-02-19 03:30 UTC is still the evening of the 18th in Los Angeles
+		const now = new Date("2026-02-19T03:30:00Z");
+		assert.strictEqual(todayStr({ timezone: "UTC" }, now), "2026-02-19");
+		assert.strictEqual(todayStr({ timezone: "America/Los_Angeles" }, now), "2026-02-18");
+		assert.strictEqual(todayStr({ timezone: "Asia/Tokyo" }, now), "2026-02-19");
+	});
+
+	it("keeps the previous day until the rollover hour", () => {
+		const opts = { timezone: "America/New_York", rolloverHour: 4 };
+		// 02:30 local on the 19th
+		assert.strictEqual(todayStr(opts, new Date("2026-02-19T07:30:00Z")), "2026-02-18");
+		// 04:30 local on the 19th
+		assert.strictEqual(todayStr(opts, new Date("2026-02-19T09:30:00Z")), "2026-02-19");
 	});
 });
 
@@ -26,12 +42,26 @@ describe("yesterdayStr", () => {
 		const diffMs = today.getTime() - yesterday.getTime();
 		assert.strictEqual(diffMs, 24 * 60 * 60 * 1000);
 	});
+
+	it("follows the configured timezone and rollover", () => {
+		const now = new Date("2026-03-01T03:00:00Z");
+		assert.strictEqual(yesterdayStr({ timezone: "UTC" }, now), "2026-02-28");
+		assert.strictEqual(yesterdayStr({ timezone: "America/Los_Angeles" }, now), "2026-02-27");
+	});
+});
+
+describe("addDays", () => {
+	it("crosses month and year boundaries", () => {
+		assert.strictEqual(addDays("2026-03-01", -1), "2026-02-28");
+		assert.strictEqual(addDays("2024-02-28", 1), "2024-02-29");
+		assert.strictEqual(addDays("2025-12-31", 1), "2026-01-01");
+	});
 });
 
 describe("nowTimestamp", () => {
-	it("returns space-separated date and time", () => {
+	it("returns space-separated date and time with a UTC offset", () => {
 		const ts = nowTimestamp();
-		assert.match(ts, /^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}$/);
+		assert.match(ts, /^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}[+-]\d{2}:\d{2}$/);
 	});
 
 	it("does not contain T or Z", () => {
@@ -39,6 +69,30 @@ describe("nowTimestamp", () => {
 		assert.ok(!ts.includes("T"));
 		assert.ok(!ts.includes("Z"));
 	});
+
+	it("renders local time in the configured zone", () => {
+		const now = new Date("2026-02-19T03:04:05Z");
+		assert.strictEqual(nowTimestamp({ timezone: "UTC" }, now), "2026-02-19 03:04:05+00:00");
+		assert.strictEqual(nowTimestamp({ timezone: "America/Los_Angeles" }, now), "2026-02-18 19:04:05-08:00");
+		assert.strictEqual(nowTimestamp({ timezone: "Asia/Kolkata" }, now), "2026-02-19 08:34:05+05:30");
+	});
+
+	it("tracks daylight saving offsets", () => {
+		const summer = new Date("2026-07-01T12:00:00Z");
+		assert.strictEqual(nowTimestamp({ timezone: "America/Los_Angeles" }, summer), "2026-07-01 05:00:00-07:00");
+	});
+});
+
+describe("parseTimestamp", () => {
+	it("round-trips nowTimestamp in any timezone", () => {
+		const now = new Date("2026-02-18T23:30:05Z");
+		assert.strictEqual(parseTimestamp(nowTimestamp({ timezone: "America/Los_Angeles" }, now))!.getTime(), now.getTime());
+	});
+
+	it("accepts a trailing session id and rejects garbage", () => {
+		assert.strictEqual(parseTimestamp("2026-02-18 10:00:00+00:00 [abc12345]")!.toISOString(), "2026-02-18T10:00:00.000Z");
+		assert.strictEqual(parseTimestamp("yesterday"), undefined);
+	});
 });
 
 describe("shortSessionId", () => {
@@ -62,4 +62,12 @@ describe("ensureDirs", () => {
 		ensureDirs(config);
 		assert.strictEqual(fs.readFileSync(testFile, "utf-8"), "keep me");
 	});
+
+	it("git-ignores lock and temp files, keeping the user's own patterns", () => {
+		const config = makeConfig(tmpDir);
+		writeFile(path.join(config.memoryDir, ".gitignore"), "drafts/\n*.lock");
+		ensureDirs(config);
+		ensureDirs(config);
+		assert.strictEqual(fs.readFileSync(path.join(config.memoryDir, ".gitignore"), "utf-8"), "drafts/\n*.lock\n.*.tmp\n");
+	});
 });
@@ -0,0 +1,130 @@
+import { describe, it, beforeEach, afterEach } from "node:test";
+import assert from "node:assert";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { spawn } from "node:child_process";
+import {
+	FileLockError,
+	withFileLock,
+	waitForFileLock,
+	lockPath,
+	atomicWriteFileSync,
+	updateFileSync,
+	parseScratchpad,
+} from "../lib.ts";
+import { makeTempDir, cleanup, writeFile } from "./helpers.ts";
+
+let tmpDir: string;
+
+beforeEach(() => { tmpDir = makeTempDir(); });
+afterEach(() => { cleanup(tmpDir); });
+
+const WORKER = path.join(import.meta.dirname, "lock-worker.ts");
+
+function runWorkers(mode: string, file: string, workers: number, count: number): Promise<void> {
+	return Promise.all(Array.from({ length: workers }, (_, id) => new Promise<void>((resolve, reject) => {
+		const child = spawn(process.execPath, ["--import", "tsx", WORKER, mode, file, `w${id}`, String(count)], { stdio: ["ignore", "ignore", "pipe"] });
+		let stderr = "";
+		child.stderr.on("data", (chunk) => { stderr += chunk; });
+		child.on("error", reject);
+		child.on("exit", (code) => code === 0 ? resolve() : reject(new Error(`worker w${id} exited ${code}: ${stderr}`)));
+	}))).then(() => undefined);
+}
+
+describe("withFileLock", () => {
+	it("holds a lock file while running and removes it afterwards", () => {
+		const file = path.join(tmpDir, "MEMORY.md");
+		const seen = withFileLock(file, () => fs.existsSync(lockPath(file)));
+		assert.strictEqual(seen, true);
+		assert.strictEqual(fs.existsSync(lockPath(file)), false);
+	});
+
+	it("releases the lock when the callback throws", () => {
+		const file = path.join(tmpDir, "MEMORY.md");
+		assert.throws(() => withFileLock(file, () => { throw new Error("boom"); }), /boom/);
+		assert.strictEqual(fs.existsSync(lockPath(file)), false);
+	});
+
+	it("times out while a live process holds the lock", () => {
+		const file = path.join(tmpDir, "MEMORY.md");
+		writeFile(lockPath(file), `${process.pid} ${os.hostname()} held`);
+		assert.throws(() => withFileLock(file, () => 1, { timeoutMs: 50 }), FileLockError);
+		assert.strictEqual(fs.readFileSync(lockPath(file), "utf-8"), `${process.pid} ${os.hostname()} held`);
+	});
+
+	it("breaks a lock left by a dead process", () => {
+		const file = path.join(tmpDir, "MEMORY.md");
+		// PIDs this large are never handed out on Linux or macOS
+		writeFile(lockPath(file), `2147483646 ${os.hostname()} dead`);
+		assert.strictEqual(withFileLock(file, () => "ran", { timeoutMs: 50 }), "ran");
+	});
+
+	it("breaks a lock older than staleMs even from another host", () => {
+		const file = path.join(tmpDir, "MEMORY.md");
+		writeFile(lockPath(file), "123 some-other-host old");
+		const past = new Date(Date.now() - 60_000);
+		fs.utimesSync(lockPath(file), past, past);
+		assert.strictEqual(withFileLock(file, () => "ran", { timeoutMs: 50, staleMs: 30_000 }), "ran");
+	});
+});
+
+describe("waitForFileLock", () => {
+	it("resolves once the holder releases the lock, without blocking timers", async () => {
+		const file = path.join(tmpDir, "MEMORY.md");
+		writeFile(lockPath(file), `${process.pid} ${os.hostname()} held`);
+		let ticks = 0;
+		const timer = setInterval(() => { ticks++; }, 5);
+		setTimeout(() => fs.rmSync(lockPath(file)), 60);
+		await waitForFileLock(file, { timeoutMs: 2000 });
+		clearInterval(timer);
+		assert.ok(ticks > 0);
+	});
+
+	it("does not wait for a stale lock", async () => {
+		const file = path.join(tmpDir, "MEMORY.md");
+		writeFile(lockPath(file), `2147483646 ${os.hostname()} dead`);
+		await waitForFileLock(file, { timeoutMs: 50 });
+	});
+
+	it("times out while a live process holds the lock", async () => {
+		const file = path.join(tmpDir, "MEMORY.md");
+		writeFile(lockPath(file), `${process.pid} ${os.hostname()} held`);
+		await assert.rejects(waitForFileLock(file, { timeoutMs: 50 }), FileLockError);
+	});
+});
+
+describe("atomicWriteFileSync / updateFileSync", () => {
+	it("replaces the file and leaves no temp files behind", () => {
+		const file = path.join(tmpDir, "MEMORY.md");
+		writeFile(file, "old");
+		atomicWriteFileSync(file, "new");
+		assert.strictEqual(fs.readFileSync(file, "utf-8"), "new");
+		assert.deepStrictEqual(fs.readdirSync(tmpDir), ["MEMORY.md"]);
+	});
+
+	it("passes null for a missing file", () => {
+		const file = path.join(tmpDir, "notes", "new.md");
+		assert.strictEqual(updateFileSync(file, (current) => `${current === null}`), "true");
+		assert.strictEqual(fs.readFileSync(file, "utf-8"), "true");
+	});
+});
+
+describe("parallel writers", () => {
+	it("keeps every append from concurrent processes", { timeout: 60_000 }, async () => {
+		const file = path.join(tmpDir, "daily.md");
+		await runWorkers("append", file, 4, 25);
+		const lines = fs.readFileSync(file, "utf-8").trim().split("\n");
+		assert.strictEqual(lines.length, 100);
+		assert.strictEqual(new Set(lines).size, 100);
+		assert.strictEqual(fs.existsSync(lockPath(file)), false);
+	});
+
+	it("keeps every scratchpad item added concurrently", { timeout: 60_000 }, async () => {
+		const file = path.join(tmpDir, "SCRATCHPAD.md");
+		await runWorkers("scratchpad", file, 3, 20);
+		const items = parseScratchpad(fs.readFileSync(file, "utf-8"));
+		assert.strictEqual(items.length, 60);
+		assert.strictEqual(new Set(items.map(i => i.text)).size, 60);
+	});
+});
@@ -0,0 +1,65 @@
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import * as path from "node:path";
+import { parseGitLog, formatGitLog, isSafeRevision, targetFile } from "../lib.ts";
+import { makeConfig } from "./helpers.ts";
+
+describe("parseGitLog / formatGitLog", () => {
+	const output = [
+		"3dbfe5675c9e7c8d5b61a3d4ffb87b2965a545b4\x1f2026-02-18T10:00:00-07:00\x1fmemory: append",
+		"8c331ef1132d0e9a4043a0df0b896c7cdf7b8902\x1f2026-02-17T09:30:00-07:00\x1fnote: lessons.md",
+		"",
+	].join("\n");
+
+	it("parses hash, date and subject per line", () => {
+		assert.deepStrictEqual(parseGitLog(output)[1], {
+			hash: "8c331ef1132d0e9a4043a0df0b896c7cdf7b8902",
+			date: "2026-02-17T09:30:00-07:00",
+			subject: "note: lessons.md",
+		});
+		assert.strictEqual(parseGitLog("").length, 0);
+	});
+
+	it("formats one short line per commit", () => {
+		assert.strictEqual(
+			formatGitLog(parseGitLog(output)),
+			"3dbfe567  2026-02-18 10:00:00-07:00  memory: append\n8c331ef1  2026-02-17 09:30:00-07:00  note: lessons.md",
+		);
+	});
+});
+
+describe("isSafeRevision", () => {
+	it("accepts hashes and relative refs", () => {
+		for (const rev of ["3dbfe56", "HEAD", "HEAD~2", "main^", "origin/main"]) assert.ok(isSafeRevision(rev), rev);
+	});
+
+	it("rejects options and ranges", () => {
+		for (const rev of ["--output=/tmp/x", "-p", "a..b", "", "HEAD; rm"]) assert.ok(!isSafeRevision(rev), rev);
+	});
+});
+
+describe("targetFile", () => {
+	const config = makeConfig("/mem-root");
+
+	it("maps targets to files and display names", () => {
+		assert.deepStrictEqual(targetFile(config, "long_term"), { path: config.memoryFile, name: "MEMORY.md" });
+		assert.deepStrictEqual(targetFile(config, "daily", { date: "2026-02-18" }), {
+			path: path.join(config.dailyDir, "2026-02-18.md"),
+			name: "daily/2026-02-18.md",
+		});
+		assert.deepStrictEqual(targetFile(config, "note", { filename: "../../etc/lessons.md" }), {
+			path: path.join(config.notesDir, "lessons.md"),
+			name: "notes/lessons.md",
+		});
+	});
+
+	it("returns null when a filename is required but missing", () => {
+		assert.strictEqual(targetFile(config, "file"), null);
+	});
+
+	it("returns null for a daily date that could escape daily/", () => {
+		for (const date of ["../../foo", "2026-02-18/../../MEMORY", "2026-2-18", "/etc/passwd"]) {
+			assert.strictEqual(targetFile(config, "daily", { date }), null, date);
+		}
+	});
+});
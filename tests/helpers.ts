@@ -1,7 +1,7 @@
 import * as fs from "node:fs";
 import * as path from "node:path";
 import * as os from "node:os";
-import type { MemoryConfig } from "../lib.ts";
+import { type MemoryConfig, systemTimezone } from "../lib.ts";
 
 export function makeTempDir(): string {
 	return fs.mkdtempSync(path.join(os.tmpdir(), "pi-mem-test-"));
@@ -19,8 +19,17 @@ export function makeConfig(baseDir: string, overrides: Partial<MemoryConfig> = {
 		scratchpadFile: path.join(memoryDir, "SCRATCHPAD.md"),
 		dailyDir: path.join(memoryDir, "daily"),
 		notesDir: path.join(memoryDir, "notes"),
+		sessionsDir: path.join(baseDir, "sessions"),
 		contextFiles: [],
 		autocommit: false,
+		contextBudget: 0,
+		timezone: systemTimezone(),
+		rolloverHour: 0,
+		repoMemory: true,
+		compactionFlush: false,
+		sessionSummaries: true,
+		sessionInclude: [],
+		sessionExclude: [],
 		...overrides,
 	};
 }
@@ -0,0 +1,209 @@
+import { describe, it, beforeEach, afterEach } from "node:test";
+import assert from "node:assert";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import {
+	journaled,
+	journalDir,
+	readJournal,
+	undoableEntries,
+	undoJournalEntries,
+	pruneJournal,
+	formatJournalEntry,
+	readBlob,
+	removeFileSync,
+	updateFileSync,
+	atomicWriteFileSync,
+	appendEntry,
+	ensureDirs,
+} from "../lib.ts";
+import { makeTempDir, cleanup, makeConfig, writeFile } from "./helpers.ts";
+
+let tmpDir: string;
+
+beforeEach(() => { tmpDir = makeTempDir(); });
+afterEach(() => { cleanup(tmpDir); });
+
+const meta = (operation: string, sessionId = "sess0001") => ({ operation, sessionId, timestamp: "2026-02-18 10:00:00+00:00" });
+
+describe("journaled", () => {
+	it("records before and after blobs for each file written", () => {
+		const config = makeConfig(tmpDir);
+		ensureDirs(config);
+		fs.writeFileSync(config.memoryFile, "old", "utf-8");
+		journaled(config, meta("memory_write long_term append"), () => {
+			updateFileSync(config.memoryFile, (current) => appendEntry(current, "new"));
+		});
+		const [entry] = readJournal(config);
+		assert.strictEqual(entry.operation, "memory_write long_term append");
+		assert.strictEqual(entry.sessionId, "sess0001");
+		assert.strictEqual(entry.changes.length, 1);
+		assert.strictEqual(entry.changes[0].path, config.memoryFile);
+		assert.strictEqual(readBlob(config, entry.changes[0].before!), "old");
+		assert.strictEqual(readBlob(config, entry.changes[0].after!), "old\n\nnew");
+	});
+
+	it("folds nested calls and multiple writes into one entry", () => {
+		const config = makeConfig(tmpDir);
+		ensureDirs(config);
+		const daily = path.join(config.dailyDir, "2026-02-18.md");
+		journaled(config, meta("scratchpad clear_done"), () => {
+			atomicWriteFileSync(config.scratchpadFile, "a");
+			atomicWriteFileSync(config.scratchpadFile, "b");
+			journaled(config, meta("inner"), () => atomicWriteFileSync(daily, "archived"));
+		});
+		const entries = readJournal(config);
+		assert.strictEqual(entries.length, 1);
+		assert.deepStrictEqual(entries[0].changes.map(c => [c.path, c.before]), [[config.scratchpadFile, null], [daily, null]]);
+		assert.strictEqual(readBlob(config, entries[0].changes[0].after!), "b");
+	});
+
+	it("skips operations that changed nothing and writes outside any operation", () => {
+		const config = makeConfig(tmpDir);
+		ensureDirs(config);
+		fs.writeFileSync(config.memoryFile, "same", "utf-8");
+		journaled(config, meta("noop"), () => atomicWriteFileSync(config.memoryFile, "same"));
+		atomicWriteFileSync(config.memoryFile, "untracked");
+		assert.deepStrictEqual(readJournal(config), []);
+	});
+
+	it("records the operation even when it throws partway", () => {
+		const config = makeConfig(tmpDir);
+		ensureDirs(config);
+		assert.throws(() => journaled(config, meta("fails"), () => {
+			atomicWriteFileSync(config.memoryFile, "written");
+			throw new Error("boom");
+		}), /boom/);
+		assert.strictEqual(readJournal(config).length, 1);
+	});
+
+	it("keeps the journal out of git", () => {
+		const config = makeConfig(tmpDir);
+		ensureDirs(config);
+		journaled(config, meta("w"), () => atomicWriteFileSync(config.memoryFile, "x"));
+		assert.strictEqual(fs.readFileSync(path.join(journalDir(config), ".gitignore"), "utf-8"), "*\n");
+	});
+
+	it("ignores a torn last line", () => {
+		const config = makeConfig(tmpDir);
+		ensureDirs(config);
+		journaled(config, meta("w"), () => atomicWriteFileSync(config.memoryFile, "x"));
+		fs.appendFileSync(path.join(journalDir(config), "journal.jsonl"), '{"id":"trunc', "utf-8");
+		assert.strictEqual(readJournal(config).length, 1);
+	});
+});
+
+describe("undoJournalEntries", () => {
+	function setup() {
+		const config = makeConfig(tmpDir);
+		ensureDirs(config);
+		journaled(config, meta("first", "aaaa0001"), () => atomicWriteFileSync(config.memoryFile, "one"));
+		journaled(config, meta("second", "bbbb0002"), () => atomicWriteFileSync(config.memoryFile, "two"));
+		journaled(config, meta("third", "aaaa0001"), () => atomicWriteFileSync(config.memoryFile, "three"));
+		return config;
+	}
+
+	it("reverts the newest operations first", () => {
+		const config = setup();
+		const targets = undoableEntries(readJournal(config)).slice(0, 2);
+		assert.deepStrictEqual(targets.map(e => e.operation), ["third", "second"]);
+		const { reverted, conflict } = undoJournalEntries(config, targets, meta("undo"));
+		assert.strictEqual(reverted.length, 2);
+		assert.strictEqual(conflict, undefined);
+		assert.strictEqual(fs.readFileSync(config.memoryFile, "utf-8"), "one");
+	});
+
+	it("records the undo and does not offer undone entries again", () => {
+		const config = setup();
+		const [latest] = undoableEntries(readJournal(config));
+		undoJournalEntries(config, [latest], meta("undo"));
+		const entries = readJournal(config);
+		assert.deepStrictEqual(entries.at(-1)!.undoes, [latest.id]);
+		assert.deepStrictEqual(undoableEntries(entries).map(e => e.operation), ["second", "first"]);
+	});
+
+	it("deletes files the operation created", () => {
+		const config = setup();
+		const note = path.join(config.notesDir, "new.md");
+		journaled(config, meta("note"), () => atomicWriteFileSync(note, "fresh"));
+		const [latest] = undoableEntries(readJournal(config));
+		undoJournalEntries(config, [latest], meta("undo"));
+		assert.ok(!fs.existsSync(note));
+	});
+
+	it("restores files the operation deleted", () => {
+		const config = setup();
+		journaled(config, meta("delete"), () => removeFileSync(config.memoryFile));
+		const [latest] = undoableEntries(readJournal(config));
+		assert.strictEqual(latest.changes[0].after, null);
+		undoJournalEntries(config, [latest], meta("undo"));
+		assert.strictEqual(fs.readFileSync(config.memoryFile, "utf-8"), "three");
+	});
+
+	it("stops at a file that changed since and leaves it alone", () => {
+		const config = setup();
+		const [third, second] = undoableEntries(readJournal(config));
+		fs.writeFileSync(config.memoryFile, "edited by hand", "utf-8");
+		const { reverted, conflict } = undoJournalEntries(config, [third, second], meta("undo"));
+		assert.strictEqual(reverted.length, 0);
+		assert.match(conflict!, /changed after third/);
+		assert.strictEqual(fs.readFileSync(config.memoryFile, "utf-8"), "edited by hand");
+		assert.strictEqual(readJournal(config).length, 3);
+	});
+
+	it("cannot skip over a later operation on the same file", () => {
+		const config = setup();
+		const sessionA = undoableEntries(readJournal(config)).filter(e => e.sessionId === "aaaa0001");
+		const { reverted, conflict } = undoJournalEntries(config, sessionA, meta("undo"));
+		assert.deepStrictEqual(reverted.map(e => e.operation), ["third"]);
+		assert.match(conflict!, /changed after first/);
+		assert.strictEqual(fs.readFileSync(config.memoryFile, "utf-8"), "two");
+	});
+});
+
+describe("pruneJournal", () => {
+	it("keeps the newest entries and the blobs they reference", () => {
+		const config = makeConfig(tmpDir);
+		ensureDirs(config);
+		for (const content of ["one", "two", "three", "four"]) {
+			journaled(config, meta(content), () => atomicWriteFileSync(config.memoryFile, content));
+		}
+		const blobFiles = () => fs.readdirSync(path.join(journalDir(config), "blobs"), { recursive: true, withFileTypes: true }).filter(d => d.isFile());
+		// Age every blob past the grace period for in-flight writes
+		const past = new Date(Date.now() - 120_000);
+		for (const blob of blobFiles()) fs.utimesSync(path.join(blob.parentPath, blob.name), past, past);
+
+		assert.deepStrictEqual(pruneJournal(config, 2), { entries: 2, blobs: 1 });
+		const entries = readJournal(config);
+		assert.deepStrictEqual(entries.map(e => e.operation), ["three", "four"]);
+		assert.strictEqual(readBlob(config, entries[0].changes[0].before!), "two");
+		assert.strictEqual(blobFiles().length, 3);
+		assert.deepStrictEqual(pruneJournal(config, 2), { entries: 0, blobs: 0 });
+	});
+
+	it("leaves recent unreferenced blobs for writes still in flight", () => {
+		const config = makeConfig(tmpDir);
+		ensureDirs(config);
+		journaled(config, meta("one"), () => atomicWriteFileSync(config.memoryFile, "one"));
+		journaled(config, meta("two"), () => atomicWriteFileSync(config.memoryFile, "two"));
+		assert.deepStrictEqual(pruneJournal(config, 1), { entries: 1, blobs: 0 });
+	});
+});
+
+describe("formatJournalEntry", () => {
+	it("shows memory-dir paths relative and others absolute", () => {
+		const config = makeConfig(tmpDir);
+		ensureDirs(config);
+		const outside = path.join(tmpDir, "repo", ".pi", "memory", "MEMORY.md");
+		writeFile(outside, "team");
+		journaled(config, meta("memory_write repo/long_term append"), () => {
+			atomicWriteFileSync(outside, "team\n\nmore");
+			atomicWriteFileSync(config.memoryFile, "mine");
+		});
+		const [entry] = readJournal(config);
+		assert.strictEqual(
+			formatJournalEntry(config, entry),
+			`${entry.id}  2026-02-18 10:00:00+00:00 [sess0001]  memory_write repo/long_term append — ${outside}, MEMORY.md (created)`,
+		);
+	});
+});
@@ -0,0 +1,23 @@
+/**
+ * Child process for tests/file-lock.test.ts: performs `count` locked
+ * read-modify-write cycles on one file, waiting for the lock the way the
+ * tool handlers do.
+ *
+ *   node --import tsx tests/lock-worker.ts <append|scratchpad> <file> <worker-id> <count>
+ */
+import { updateFileSync, waitForFileLock, parseScratchpad, serializeScratchpad } from "../lib.ts";
+
+const [mode, file, id, count] = process.argv.slice(2);
+
+for (let i = 0; i < parseInt(count, 10); i++) {
+	await waitForFileLock(file);
+	if (mode === "append") {
+		updateFileSync(file, (current) => `${current ?? ""}${id}-${i}\n`);
+	} else {
+		updateFileSync(file, (current) => {
+			const items = parseScratchpad(current ?? "");
+			items.push({ done: false, text: `${id}-${i}`, meta: "" });
+			return serializeScratchpad(items);
+		});
+	}
+}
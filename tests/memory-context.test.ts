@@ -1,7 +1,7 @@
 import { describe, it, beforeEach, afterEach } from "node:test";
 import assert from "node:assert";
 import * as fs from "node:fs";
-import { buildMemoryContext, ensureDirs, todayStr, yesterdayStr } from "../lib.ts";
+import { buildMemoryContext, ensureDirs, splitEntries, todayStr, yesterdayStr, TRUNCATION_MARKER } from "../lib.ts";
 import { makeTempDir, cleanup, makeConfig, writeFile } from "./helpers.ts";
 
 let tmpDir: string;
@@ -148,3 +148,121 @@ describe("buildMemoryContext", () => {
 		assert.ok(bIdx < cIdx);
 	});
 });
+
+describe("splitEntries", () => {
+	it("splits on timestamp stamps, oldest first", () => {
+		const content = "<!-- 2026-02-18 09:00:00 [aaaa] -->\nfirst\n\n<!-- 2026-02-18 10:00:00 [bbbb] -->\nsecond";
+		assert.deepStrictEqual(splitEntries(content), [
+			"<!-- 2026-02-18 09:00:00 [aaaa] -->\nfirst",
+			"<!-- 2026-02-18 10:00:00 [bbbb] -->\nsecond",
+		]);
+	});
+
+	it("keeps a heading before the first stamp as its own entry", () => {
+		const entries = splitEntries("# Log\n<!-- 2026-02-18 09:00:00 [aaaa] -->\nfirst");
+		assert.deepStrictEqual(entries, ["# Log", "<!-- 2026-02-18 09:00:00 [aaaa] -->\nfirst"]);
+	});
+
+	it("falls back to paragraphs when there are no stamps", () => {
+		assert.deepStrictEqual(splitEntries("one\n\ntwo\n  \nthree"), ["one", "two", "three"]);
+	});
+});
+
+describe("buildMemoryContext with a budget", () => {
+	function stampedLog(count: number, size: number): string {
+		const entries: string[] = [];
+		for (let i = 0; i < count; i++) {
+			entries.push(`<!-- 2026-02-18 ${String(i).padStart(2, "0")}:00:00 [s${i}] -->\nentry-${i} ${"x".repeat(size)}`);
+		}
+		return entries.join("\n\n");
+	}
+
+	it("leaves output untouched when everything fits", () => {
+		const config = makeConfig(tmpDir);
+		ensureDirs(config);
+		fs.writeFileSync(config.memoryFile, "Small fact", "utf-8");
+		const unlimited = buildMemoryContext(config);
+		const budgeted = buildMemoryContext({ ...config, contextBudget: 10_000 });
+		assert.strictEqual(budgeted, unlimited);
+		assert.ok(!budgeted.includes(TRUNCATION_MARKER));
+	});
+
+	it("stays within the budget", () => {
+		const config = makeConfig(tmpDir, { contextBudget: 2000 });
+		ensureDirs(config);
+		fs.writeFileSync(config.memoryFile, stampedLog(10, 300), "utf-8");
+		writeFile(`${config.dailyDir}/${todayStr()}.md`, stampedLog(10, 300));
+		const result = buildMemoryContext(config);
+		assert.ok(result.length <= 2000 + 200, `length ${result.length}`);
+	});
+
+	it("drops the oldest entries first and says how many", () => {
+		const config = makeConfig(tmpDir, { contextBudget: 1200 });
+		ensureDirs(config);
+		writeFile(`${config.dailyDir}/${todayStr()}.md`, stampedLog(6, 300));
+		const result = buildMemoryContext(config);
+		assert.ok(result.includes("entry-5"), "newest entry kept");
+		assert.ok(!result.includes("entry-0"), "oldest entry dropped");
+		assert.ok(result.includes(`${TRUNCATION_MARKER} `));
+		assert.match(result, /\d+ of 6 older entries omitted from daily\/\d{4}-\d{2}-\d{2}\.md/);
+	});
+
+	it("trims lower-priority sections before higher-priority ones", () => {
+		const config = makeConfig(tmpDir, { contextBudget: 1500 });
+		ensureDirs(config);
+		fs.writeFileSync(config.memoryFile, "Durable fact that must survive", "utf-8");
+		fs.writeFileSync(config.scratchpadFile, "# Scratchpad\n\n- [ ] Keep me\n", "utf-8");
+		writeFile(`${config.dailyDir}/${todayStr()}.md`, stampedLog(4, 300));
+		writeFile(`${config.dailyDir}/${yesterdayStr()}.md`, stampedLog(4, 300));
+		const result = buildMemoryContext(config);
+		assert.ok(result.includes("Durable fact that must survive"));
+		assert.ok(result.includes("Keep me"));
+		assert.ok(result.includes("(today)"));
+		assert.ok(result.includes(`omitted to fit the context budget: daily/${yesterdayStr()}.md`));
+	});
+
+	it("keeps the tail of a single oversized entry", () => {
+		const config = makeConfig(tmpDir, { contextBudget: 600 });
+		ensureDirs(config);
+		const lines = Array.from({ length: 100 }, (_, i) => `line ${i}`);
+		fs.writeFileSync(config.memoryFile, lines.join("\n"), "utf-8");
+		const result = buildMemoryContext(config);
+		assert.ok(result.includes("line 99"));
+		assert.ok(!result.includes("line 0\n"));
+		assert.ok(result.includes(`${TRUNCATION_MARKER} start of MEMORY.md omitted`));
+	});
+});
+
+describe("buildMemoryContext scratchpad attention", () => {
+	it("flags overdue and high-priority items above the list", () => {
+		const config = makeConfig(tmpDir);
+		ensureDirs(config);
+		fs.writeFileSync(config.scratchpadFile, "# Scratchpad\n\n- [ ] Routine\n- [ ] Ancient due:2000-01-01\n- [ ] Critical !p1\n", "utf-8");
+		const result = buildMemoryContext(config);
+		const attention = result.indexOf("**Needs attention:**");
+		assert.ok(attention > result.indexOf("## SCRATCHPAD.md"));
+		assert.ok(attention < result.indexOf("- [ ] Routine"));
+		assert.ok(result.includes("- Ancient (overdue since 2000-01-01)"));
+		assert.ok(result.includes("- Critical (high priority)"));
+	});
+
+	it("keeps the attention block when the budget trims scratchpad items", () => {
+		const config = makeConfig(tmpDir, { contextBudget: 400 });
+		ensureDirs(config);
+		const filler = Array.from({ length: 30 }, (_, i) => `- [ ] Filler item number ${i}`).join("\n");
+		fs.writeFileSync(config.scratchpadFile, `# Scratchpad\n\n- [ ] Critical !p1\n${filler}\n`, "utf-8");
+		const result = buildMemoryContext(config);
+		assert.ok(result.includes("- Critical (high priority)"));
+		assert.ok(result.includes(TRUNCATION_MARKER));
+	});
+});
+
+describe("buildMemoryContext scratchpad tree", () => {
+	it("renders subtasks under their parent and sections as headings", () => {
+		const config = makeConfig(tmpDir);
+		ensureDirs(config);
+		fs.writeFileSync(config.scratchpadFile, "# Scratchpad\n\n## Backend\n\n- [x] Migrate\n  - [ ] Run migration\n", "utf-8");
+		const result = buildMemoryContext(config);
+		assert.ok(result.includes("### Backend\n- [x] Migrate\n  - [ ] Run migration"));
+	});
+});
@@ -0,0 +1,81 @@
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import { EditError, replaceExact, deleteLines, insertAfter, unifiedDiff } from "../lib.ts";
+
+const file = "# Memory\n\n- uses postgres 14\n- deploys on fridays\n- likes tabs\n";
+
+describe("replaceExact", () => {
+	it("replaces a single exact match", () => {
+		assert.strictEqual(replaceExact(file, "postgres 14", "postgres 16"), file.replace("14", "16"));
+	});
+
+	it("fails on zero matches", () => {
+		assert.throws(() => replaceExact(file, "mysql", "x"), EditError);
+	});
+
+	it("fails on multiple matches and reports the count", () => {
+		assert.throws(() => replaceExact(file, "- ", "* "), /matches 3 times/);
+	});
+
+	it("can delete text with an empty replacement", () => {
+		assert.strictEqual(replaceExact(file, "- likes tabs\n", ""), "# Memory\n\n- uses postgres 14\n- deploys on fridays\n");
+	});
+});
+
+describe("deleteLines", () => {
+	it("deletes an inclusive 1-based range and keeps the trailing newline", () => {
+		assert.strictEqual(deleteLines(file, 3, 4), "# Memory\n\n- likes tabs\n");
+	});
+
+	it("rejects ranges outside the file", () => {
+		assert.throws(() => deleteLines(file, 0, 1), EditError);
+		assert.throws(() => deleteLines(file, 4, 3), EditError);
+		assert.throws(() => deleteLines(file, 5, 6), /has 5 line/);
+	});
+});
+
+describe("insertAfter", () => {
+	it("inserts after the one matching line", () => {
+		assert.strictEqual(
+			insertAfter(file, "fridays", "- never on holidays"),
+			"# Memory\n\n- uses postgres 14\n- deploys on fridays\n- never on holidays\n- likes tabs\n",
+		);
+	});
+
+	it("fails when the anchor is missing or ambiguous", () => {
+		assert.throws(() => insertAfter(file, "nope", "x"), EditError);
+		assert.throws(() => insertAfter(file, "- ", "x"), /lines \(3, 4, 5\)/);
+	});
+});
+
+describe("unifiedDiff", () => {
+	it("returns an empty string for identical content", () => {
+		assert.strictEqual(unifiedDiff(file, file, "MEMORY.md"), "");
+	});
+
+	it("renders a hunk with context", () => {
+		const after = replaceExact(file, "postgres 14", "postgres 16");
+		assert.strictEqual(unifiedDiff(file, after, "MEMORY.md"), [
+			"--- a/MEMORY.md",
+			"+++ b/MEMORY.md",
+			"@@ -1,5 +1,5 @@",
+			" # Memory",
+			" ",
+			"-- uses postgres 14",
+			"+- uses postgres 16",
+			" - deploys on fridays",
+			" - likes tabs",
+		].join("\n"));
+	});
+
+	it("splits distant changes into separate hunks", () => {
+		const before = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`).join("\n");
+		const after = before.replace("line 2\n", "line two\n").replace("line 19", "line nineteen");
+		const headers = unifiedDiff(before, after, "n.md").split("\n").filter(l => l.startsWith("@@"));
+		assert.deepStrictEqual(headers, ["@@ -1,5 +1,5 @@", "@@ -16,5 +16,5 @@"]);
+	});
+
+	it("numbers pure insertions into an empty file from zero", () => {
+		assert.strictEqual(unifiedDiff("", "x\n", "n.md"), "--- a/n.md\n+++ b/n.md\n@@ -0,0 +1,1 @@\n+x");
+	});
+});
@@ -0,0 +1,66 @@
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import { readSection, upsertSection } from "../lib.ts";
+
+const memory = [
+	"<!-- last updated: 2026-02-18 10:00:00+00:00 [abc12345] -->",
+	"# Memory",
+	"",
+	"## Preferences",
+	"",
+	"- tabs over spaces",
+	"",
+	"### Editor",
+	"- vim",
+	"",
+	"## Decisions",
+	"- use postgres",
+	"",
+].join("\n");
+
+describe("readSection", () => {
+	it("returns the body including deeper headings", () => {
+		assert.strictEqual(readSection(memory, "Preferences"), "- tabs over spaces\n\n### Editor\n- vim");
+	});
+
+	it("matches case-insensitively and accepts a leading ##", () => {
+		assert.strictEqual(readSection(memory, "## decisions"), "- use postgres");
+	});
+
+	it("returns null for a missing heading", () => {
+		assert.strictEqual(readSection(memory, "Nope"), null);
+	});
+});
+
+describe("upsertSection", () => {
+	it("appends after the section's last line, before the next heading", () => {
+		const result = upsertSection(memory, "Preferences", "- dark mode", "append");
+		assert.strictEqual(readSection(result, "Preferences"), "- tabs over spaces\n\n### Editor\n- vim\n\n- dark mode");
+		assert.ok(result.includes("- dark mode\n\n## Decisions\n"));
+	});
+
+	it("replaces only the section body", () => {
+		const result = upsertSection(memory, "Preferences", "- spaces after all", "replace");
+		assert.strictEqual(
+			result,
+			memory.replace("- tabs over spaces\n\n### Editor\n- vim\n", "- spaces after all\n"),
+		);
+	});
+
+	it("keeps the trailing newline when replacing the last section", () => {
+		const result = upsertSection(memory, "Decisions", "- use sqlite", "replace");
+		assert.ok(result.endsWith("## Decisions\n\n- use sqlite\n"));
+		assert.ok(result.startsWith(memory.slice(0, memory.indexOf("## Decisions"))));
+	});
+
+	it("creates a missing heading at the end without touching the rest", () => {
+		const result = upsertSection(memory, "People", "- Sam owns billing", "append");
+		assert.strictEqual(result, `${memory.trimEnd()}\n\n## People\n\n- Sam owns billing\n`);
+		assert.strictEqual(upsertSection("", "People", "- x", "replace"), "## People\n\n- x\n");
+	});
+
+	it("fills an empty section", () => {
+		const result = upsertSection("## Empty\n\n## Next\nbody\n", "Empty", "filled", "append");
+		assert.strictEqual(result, "## Empty\n\nfilled\n\n## Next\nbody\n");
+	});
+});
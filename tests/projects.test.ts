@@ -0,0 +1,184 @@
+import { describe, it, beforeEach, afterEach } from "node:test";
+import assert from "node:assert";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import {
+	findGitRoot,
+	projectSlug,
+	resolveProject,
+	withSession,
+	projectConfig,
+	findRepoMemoryDir,
+	layerConfig,
+	layerUnavailable,
+	buildConfig,
+	resolveDisplayPath,
+	buildMemoryContext,
+	ensureDirs,
+	listMemoryFiles,
+	rankedSearch,
+} from "../lib.ts";
+import { makeTempDir, cleanup, makeConfig, writeFile } from "./helpers.ts";
+
+let tmpDir: string;
+
+beforeEach(() => { tmpDir = makeTempDir(); });
+afterEach(() => { cleanup(tmpDir); });
+
+describe("findGitRoot", () => {
+	it("walks up to the directory containing .git", () => {
+		const repo = path.join(tmpDir, "repo");
+		fs.mkdirSync(path.join(repo, ".git"), { recursive: true });
+		fs.mkdirSync(path.join(repo, "src", "deep"), { recursive: true });
+		assert.strictEqual(findGitRoot(path.join(repo, "src", "deep")), repo);
+	});
+
+	it("accepts a .git file (worktrees, submodules)", () => {
+		const repo = path.join(tmpDir, "worktree");
+		writeFile(path.join(repo, ".git"), "gitdir: /elsewhere");
+		assert.strictEqual(findGitRoot(repo), repo);
+	});
+});
+
+describe("projectSlug", () => {
+	it("is readable and stable", () => {
+		const slug = projectSlug("/home/me/My Repo");
+		assert.match(slug, /^my-repo-[0-9a-f]{8}$/);
+		assert.strictEqual(projectSlug("/home/me/My Repo"), slug);
+	});
+
+	it("distinguishes repos with the same name", () => {
+		assert.notStrictEqual(projectSlug("/a/app"), projectSlug("/b/app"));
+	});
+});
+
+describe("resolveProject / projectConfig", () => {
+	it("keys the project on the git root, not the cwd", () => {
+		const config = makeConfig(tmpDir);
+		const repo = path.join(tmpDir, "repo");
+		fs.mkdirSync(path.join(repo, ".git"), { recursive: true });
+		fs.mkdirSync(path.join(repo, "pkg"));
+		const project = resolveProject(config, path.join(repo, "pkg"));
+		assert.strictEqual(project.root, repo);
+		assert.strictEqual(project.dir, path.join(config.memoryDir, "projects", project.slug));
+	});
+
+	it("points MEMORY.md, SCRATCHPAD.md and notes/ at the project directory", () => {
+		const config = makeConfig(tmpDir);
+		const project = resolveProject(config, tmpDir);
+		const scoped = projectConfig(config, project);
+		assert.strictEqual(scoped.memoryFile, path.join(project.dir, "MEMORY.md"));
+		assert.strictEqual(scoped.scratchpadFile, path.join(project.dir, "SCRATCHPAD.md"));
+		assert.strictEqual(scoped.notesDir, path.join(project.dir, "notes"));
+		assert.strictEqual(scoped.dailyDir, config.dailyDir);
+	});
+});
+
+describe("project memory in context and search", () => {
+	it("injects project memory alongside global memory", () => {
+		const config = withSession(makeConfig(tmpDir), path.join(tmpDir, "repo"));
+		const scoped = projectConfig(config, config.project!);
+		ensureDirs(scoped);
+		fs.writeFileSync(config.memoryFile, "Global fact", "utf-8");
+		fs.writeFileSync(scoped.memoryFile, "Repo fact", "utf-8");
+		fs.writeFileSync(scoped.scratchpadFile, "- [ ] Repo task", "utf-8");
+		const result = buildMemoryContext(config);
+		assert.ok(result.includes("## MEMORY.md (long-term)\n\nGlobal fact"));
+		assert.ok(result.includes("## Project MEMORY.md (repo)\n\nRepo fact"));
+		assert.ok(result.includes("## Project SCRATCHPAD.md (repo)"));
+		assert.ok(result.indexOf("Global fact") < result.indexOf("Repo fact"));
+	});
+
+	it("leaves other projects out", () => {
+		const base = makeConfig(tmpDir);
+		const other = projectConfig(base, resolveProject(base, path.join(tmpDir, "other")));
+		ensureDirs(other);
+		fs.writeFileSync(other.memoryFile, "Other repo fact", "utf-8");
+		const result = buildMemoryContext(withSession(base, path.join(tmpDir, "repo")));
+		assert.ok(!result.includes("Other repo fact"));
+	});
+
+	it("lists the current project's files under the project scope", () => {
+		const config = withSession(makeConfig(tmpDir), path.join(tmpDir, "repo"));
+		const scoped = projectConfig(config, config.project!);
+		ensureDirs(scoped);
+		fs.writeFileSync(scoped.memoryFile, "Repo fact", "utf-8");
+		writeFile(path.join(scoped.notesDir, "arch.md"), "layers");
+		const files = listMemoryFiles(config).filter(f => f.scope === "project").map(f => f.name);
+		const prefix = `projects/${config.project!.slug}`;
+		assert.deepStrictEqual(files, [`${prefix}/MEMORY.md`, `${prefix}/notes/arch.md`]);
+		assert.strictEqual(rankedSearch(config, "repo fact").lineResults[0].file, `${prefix}/MEMORY.md`);
+		assert.strictEqual(rankedSearch(config, "repo fact", 20, { scope: ["root"] }).lineResults.length, 0);
+	});
+});
+
+describe("repo-local memory", () => {
+	function makeRepo(): string {
+		const repo = path.join(tmpDir, "repo");
+		fs.mkdirSync(path.join(repo, ".git"), { recursive: true });
+		fs.mkdirSync(path.join(repo, "src", "deep"), { recursive: true });
+		return repo;
+	}
+
+	it("finds .pi/memory by walking up from the cwd", () => {
+		const repo = makeRepo();
+		fs.mkdirSync(path.join(repo, ".pi", "memory"), { recursive: true });
+		assert.strictEqual(findRepoMemoryDir(path.join(repo, "src", "deep")), path.join(repo, ".pi", "memory"));
+	});
+
+	it("does not look above the git root", () => {
+		fs.mkdirSync(path.join(tmpDir, ".pi", "memory"), { recursive: true });
+		const repo = makeRepo();
+		assert.strictEqual(findRepoMemoryDir(path.join(repo, "src")), null);
+	});
+
+	it("is discovered by buildConfig unless PI_REPO_MEMORY disables it", () => {
+		const repo = makeRepo();
+		fs.mkdirSync(path.join(repo, ".pi", "memory"), { recursive: true });
+		assert.strictEqual(buildConfig({ HOME: tmpDir }, repo).repoMemoryDir, path.join(repo, ".pi", "memory"));
+		assert.strictEqual(buildConfig({ HOME: tmpDir, PI_REPO_MEMORY: "0" }, repo).repoMemoryDir, undefined);
+	});
+
+	it("writes to the git root's .pi/memory when the repo has none yet", () => {
+		const repo = makeRepo();
+		const { config, prefix } = layerConfig(makeConfig(tmpDir), "repo", path.join(repo, "src"));
+		assert.strictEqual(config.memoryFile, path.join(repo, ".pi", "memory", "MEMORY.md"));
+		assert.strictEqual(prefix, "repo/");
+		assert.strictEqual(layerConfig(makeConfig(tmpDir), "global", repo).prefix, "");
+	});
+
+	it("refuses the repo layer when PI_REPO_MEMORY disables it", () => {
+		const repo = makeRepo();
+		const config = { ...makeConfig(tmpDir), repoMemory: false };
+		assert.match(layerUnavailable(config, "repo")!, /PI_REPO_MEMORY=0/);
+		assert.strictEqual(layerUnavailable(config, "project"), null);
+		assert.strictEqual(layerUnavailable(makeConfig(tmpDir), "repo"), null);
+		assert.throws(() => layerConfig(config, "repo", repo), /repo-local memory is disabled/);
+		assert.ok(!fs.existsSync(path.join(repo, ".pi")));
+	});
+
+	it("merges the repo layer into context with its own labels", () => {
+		const repo = makeRepo();
+		const config = makeConfig(tmpDir);
+		ensureDirs(config);
+		fs.writeFileSync(config.memoryFile, "Personal fact", "utf-8");
+		writeFile(path.join(repo, ".pi", "memory", "MEMORY.md"), "Team fact");
+		writeFile(path.join(repo, ".pi", "memory", "SCRATCHPAD.md"), "- [ ] Team task");
+		const result = buildMemoryContext(withSession(config, repo));
+		assert.ok(result.includes("## MEMORY.md (long-term)\n\nPersonal fact"));
+		assert.ok(result.includes(`## Repo MEMORY.md (shared, ${path.join(".pi", "memory")})\n\nTeam fact`));
+		assert.ok(result.includes("## Repo SCRATCHPAD.md (shared"));
+	});
+
+	it("is searched alongside global memory", () => {
+		const repo = makeRepo();
+		writeFile(path.join(repo, ".pi", "memory", "notes", "deploy.md"), "deploy through CI only");
+		const config = withSession(makeConfig(tmpDir), repo);
+		ensureDirs(config);
+		fs.writeFileSync(config.memoryFile, "deploy from laptop", "utf-8");
+		const files = rankedSearch(config, "deploy").lineResults.map(h => h.file).sort();
+		assert.deepStrictEqual(files, ["MEMORY.md", "repo/notes/deploy.md"]);
+		assert.strictEqual(resolveDisplayPath(config, "repo/notes/deploy.md"), path.join(repo, ".pi", "memory", "notes", "deploy.md"));
+		assert.deepStrictEqual(rankedSearch(config, "deploy", 20, { scope: ["repo"] }).lineResults.map(h => h.file), ["repo/notes/deploy.md"]);
+	});
+});
@@ -0,0 +1,148 @@
+import { describe, it, beforeEach, afterEach } from "node:test";
+import assert from "node:assert";
+import * as fs from "node:fs";
+import { rankedSearch, updateSearchIndex, QuerySyntaxError, searchIndexPath, tokenize, ensureDirs } from "../lib.ts";
+import { makeTempDir, cleanup, makeConfig, writeFile } from "./helpers.ts";
+
+let tmpDir: string;
+
+beforeEach(() => { tmpDir = makeTempDir(); });
+afterEach(() => { cleanup(tmpDir); });
+
+describe("tokenize", () => {
+	it("lowercases and splits on non-word characters", () => {
+		assert.deepStrictEqual(tokenize("Use PostgreSQL, not MySQL!"), ["use", "postgresql", "not", "mysql"]);
+	});
+
+	it("drops single-character tokens", () => {
+		assert.deepStrictEqual(tokenize("a b cd"), ["cd"]);
+	});
+
+	it("keeps non-ASCII letters", () => {
+		assert.deepStrictEqual(tokenize("Café über"), ["café", "über"]);
+	});
+});
+
+describe("rankedSearch", () => {
+	it("ranks the most relevant chunk first regardless of directory order", () => {
+		const config = makeConfig(tmpDir);
+		ensureDirs(config);
+		fs.writeFileSync(config.memoryFile, "We mentioned postgres once.\n\nUnrelated paragraph about cats.", "utf-8");
+		writeFile(`${config.dailyDir}/2026-02-18.md`, "Postgres migration: postgres 16 upgrade, postgres replicas rebuilt");
+		const result = rankedSearch(config, "postgres");
+		assert.strictEqual(result.lineResults[0].file, "daily/2026-02-18.md");
+		assert.ok(result.lineResults[0].score! > result.lineResults[1].score!);
+	});
+
+	it("matches terms in any order", () => {
+		const config = makeConfig(tmpDir);
+		ensureDirs(config);
+		writeFile(`${config.notesDir}/db.md`, "Ran the migration for Postgres yesterday");
+		const result = rankedSearch(config, "postgres migration");
+		assert.strictEqual(result.lineResults.length, 1);
+		assert.strictEqual(result.lineResults[0].file, "notes/db.md");
+	});
+
+	it("points at the first matching line within a paragraph", () => {
+		const config = makeConfig(tmpDir);
+		ensureDirs(config);
+		fs.writeFileSync(config.memoryFile, "## Databases\n- primary store\n- postgres for analytics", "utf-8");
+		const result = rankedSearch(config, "postgres");
+		assert.strictEqual(result.lineResults[0].line, 3);
+		assert.strictEqual(result.lineResults[0].text, "- postgres for analytics");
+	});
+
+	it("does not index stamp comments", () => {
+		const config = makeConfig(tmpDir);
+		ensureDirs(config);
+		fs.writeFileSync(config.memoryFile, "<!-- 2026-02-18 10:00:00+00:00 [abc12345] -->\nA fact", "utf-8");
+		assert.strictEqual(rankedSearch(config, "abc12345").lineResults.length, 0);
+	});
+
+	it("respects maxResults", () => {
+		const config = makeConfig(tmpDir);
+		ensureDirs(config);
+		const paragraphs = Array.from({ length: 30 }, (_, i) => `match paragraph ${i}`).join("\n\n");
+		fs.writeFileSync(config.memoryFile, paragraphs, "utf-8");
+		assert.strictEqual(rankedSearch(config, "match", 5).lineResults.length, 5);
+	});
+
+	it("requires every term to appear in the chunk", () => {
+		const config = makeConfig(tmpDir);
+		ensureDirs(config);
+		fs.writeFileSync(config.memoryFile, "postgres only\n\nmigration only\n\npostgres migration", "utf-8");
+		const result = rankedSearch(config, "postgres migration");
+		assert.strictEqual(result.lineResults.length, 1);
+		assert.strictEqual(result.lineResults[0].line, 5);
+	});
+
+	it("includes regex-only matches with a zero score", () => {
+		const config = makeConfig(tmpDir);
+		ensureDirs(config);
+		fs.writeFileSync(config.memoryFile, "ticket ABC-123 filed", "utf-8");
+		const result = rankedSearch(config, "/[a-z]+-\\d+/");
+		assert.strictEqual(result.lineResults.length, 1);
+		assert.strictEqual(result.lineResults[0].score, 0);
+	});
+
+	it("rejects malformed queries", () => {
+		const config = makeConfig(tmpDir);
+		ensureDirs(config);
+		assert.throws(() => rankedSearch(config, '"open'), QuerySyntaxError);
+	});
+
+	it("still reports filename matches", () => {
+		const config = makeConfig(tmpDir);
+		ensureDirs(config);
+		writeFile(`${config.notesDir}/lessons.md`, "nothing here");
+		assert.ok(rankedSearch(config, "lessons").fileMatches.includes("notes/lessons.md"));
+	});
+});
+
+describe("updateSearchIndex", () => {
+	it("persists the index to disk", () => {
+		const config = makeConfig(tmpDir);
+		ensureDirs(config);
+		fs.writeFileSync(config.memoryFile, "indexed content", "utf-8");
+		updateSearchIndex(config);
+		const stored = JSON.parse(fs.readFileSync(searchIndexPath(config), "utf-8"));
+		assert.ok(stored.files["MEMORY.md"]);
+	});
+
+	it("reindexes only files whose mtime changed", () => {
+		const config = makeConfig(tmpDir);
+		ensureDirs(config);
+		fs.writeFileSync(config.memoryFile, "alpha", "utf-8");
+		writeFile(`${config.notesDir}/n.md`, "beta");
+		updateSearchIndex(config);
+
+		// Tamper with the stored chunk for an unchanged file; it must be reused as-is.
+		const indexPath = searchIndexPath(config);
+		const stored = JSON.parse(fs.readFileSync(indexPath, "utf-8"));
+		stored.files["notes/n.md"].chunks[0].terms = { sentinel: 1 };
+		fs.writeFileSync(indexPath, JSON.stringify(stored), "utf-8");
+
+		fs.writeFileSync(config.memoryFile, "gamma delta", "utf-8");
+		fs.utimesSync(config.memoryFile, new Date(), new Date(Date.now() + 5000));
+		const index = updateSearchIndex(config);
+		assert.deepStrictEqual(index.files["notes/n.md"].chunks[0].terms, { sentinel: 1 });
+		assert.ok(index.files["MEMORY.md"].chunks[0].terms.gamma);
+	});
+
+	it("drops deleted files", () => {
+		const config = makeConfig(tmpDir);
+		ensureDirs(config);
+		writeFile(`${config.notesDir}/gone.md`, "temporary");
+		updateSearchIndex(config);
+		fs.unlinkSync(`${config.notesDir}/gone.md`);
+		assert.strictEqual(updateSearchIndex(config).files["notes/gone.md"], undefined);
+	});
+
+	it("rebuilds from scratch when the index file is corrupt", () => {
+		const config = makeConfig(tmpDir);
+		ensureDirs(config);
+		fs.writeFileSync(config.memoryFile, "recoverable", "utf-8");
+		writeFile(searchIndexPath(config), "{not json");
+		assert.strictEqual(rankedSearch(config, "recoverable").lineResults.length, 1);
+	});
+});
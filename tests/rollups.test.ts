@@ -0,0 +1,142 @@
+import { describe, it, beforeEach, afterEach } from "node:test";
+import assert from "node:assert";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import {
+	isoWeek,
+	rollupPeriod,
+	rollupPath,
+	readDailyLogs,
+	pendingRollups,
+	fallbackRollup,
+	formatRollup,
+	lastWeekRollup,
+	buildMemoryContext,
+	listMemoryFiles,
+	targetFile,
+	dailyPath,
+	todayStr,
+	addDays,
+	ensureDirs,
+} from "../lib.ts";
+import { makeTempDir, cleanup, makeConfig, writeFile } from "./helpers.ts";
+
+let tmpDir: string;
+
+beforeEach(() => { tmpDir = makeTempDir(); });
+afterEach(() => { cleanup(tmpDir); });
+
+describe("isoWeek", () => {
+	it("numbers weeks from Monday", () => {
+		assert.strictEqual(isoWeek("2026-02-16"), "2026-W08");
+		assert.strictEqual(isoWeek("2026-02-22"), "2026-W08");
+		assert.strictEqual(isoWeek("2026-02-23"), "2026-W09");
+	});
+
+	it("assigns year-boundary days to the week's Thursday year", () => {
+		assert.strictEqual(isoWeek("2026-01-01"), "2026-W01");
+		assert.strictEqual(isoWeek("2027-01-01"), "2026-W53");
+		assert.strictEqual(isoWeek("2024-12-30"), "2025-W01");
+	});
+});
+
+describe("rollupPeriod", () => {
+	it("spans Monday to Sunday for weeks", () => {
+		const week = rollupPeriod("weekly", "2026-02-18");
+		assert.strictEqual(week.period, "2026-W08");
+		assert.deepStrictEqual([week.days[0], week.days[6]], ["2026-02-16", "2026-02-22"]);
+	});
+
+	it("spans every day of the month", () => {
+		const month = rollupPeriod("monthly", "2028-02-10");
+		assert.strictEqual(month.period, "2028-02");
+		assert.strictEqual(month.days.length, 29);
+		assert.strictEqual(month.days.at(-1), "2028-02-29");
+	});
+});
+
+describe("pendingRollups", () => {
+	it("lists finished periods with logs and no rollup, newest first", () => {
+		const config = makeConfig(tmpDir);
+		ensureDirs(config);
+		for (const day of ["2026-02-10", "2026-02-17", "2026-01-20"]) {
+			writeFile(dailyPath(config.dailyDir, day), "log");
+		}
+		writeFile(rollupPath(config, "weekly", "2026-W07"), "done");
+		const pending = pendingRollups(config, "2026-02-18").map(p => `${p.kind} ${p.period}`);
+		// 2026-W08 is the current week and 2026-02 the current month
+		assert.deepStrictEqual(pending, ["weekly 2026-W04", "monthly 2026-01"]);
+	});
+
+	it("only looks back the configured number of periods", () => {
+		const config = makeConfig(tmpDir);
+		writeFile(dailyPath(config.dailyDir, "2025-06-01"), "old");
+		assert.deepStrictEqual(pendingRollups(config, "2026-02-18"), []);
+		assert.strictEqual(pendingRollups(config, "2026-02-18", { months: 12 }).length, 1);
+	});
+});
+
+describe("fallbackRollup", () => {
+	it("lists each entry's headline under its day", () => {
+		const config = makeConfig(tmpDir);
+		writeFile(dailyPath(config.dailyDir, "2026-02-16"), "<!-- 2026-02-16 09:00:00+00:00 [abc] -->\n## Fixed login\ndetails\n\n<!-- 2026-02-16 17:00:00+00:00 [abc] -->\n- Shipped v2");
+		writeFile(dailyPath(config.dailyDir, "2026-02-18"), "Planning notes for Q2");
+		const logs = readDailyLogs(config, rollupPeriod("weekly", "2026-02-18").days);
+		assert.strictEqual(
+			fallbackRollup(logs),
+			"### 2026-02-16\n\n- Fixed login\n- Shipped v2\n\n### 2026-02-18\n\n- Planning notes for Q2",
+		);
+	});
+
+	it("caps the lines per day and points at the log", () => {
+		const content = Array.from({ length: 4 }, (_, i) => `<!-- 2026-02-16 0${i}:00:00+00:00 [abc] -->\nentry ${i}`).join("\n\n");
+		const text = fallbackRollup([{ date: "2026-02-16", content }], 2);
+		assert.ok(text.endsWith("- entry 1\n- ... and 2 more (see daily/2026-02-16.md)"));
+	});
+});
+
+describe("weekly rollup in context", () => {
+	it("injects the previous week's rollup without its stamp and title", () => {
+		const config = makeConfig(tmpDir);
+		ensureDirs(config);
+		const today = todayStr(config);
+		const lastWeek = rollupPeriod("weekly", addDays(today, -7));
+		const older = rollupPeriod("weekly", addDays(today, -14));
+		writeFile(rollupPath(config, "weekly", older.period), formatRollup(older, "older", { generated: "x", source: "fallback" }));
+		writeFile(rollupPath(config, "weekly", lastWeek.period), formatRollup(lastWeek, "**Auth**\n- fixed login", { generated: "x", source: "llm" }));
+		const result = buildMemoryContext(config);
+		assert.ok(result.includes(`## Last week: ${lastWeek.period} (rollup)\n\n**Auth**\n- fixed login`));
+		assert.ok(!result.includes("older"));
+		assert.ok(!result.includes("<!-- rollup"));
+	});
+
+	it("ignores rollups older than the previous week", () => {
+		const config = makeConfig(tmpDir);
+		writeFile(rollupPath(config, "weekly", "2026-W07"), formatRollup(rollupPeriod("weekly", "2026-02-10"), "done", { generated: "x", source: "llm" }));
+		assert.strictEqual(lastWeekRollup(config, "2026-02-18")!.period, "2026-W07");
+		assert.strictEqual(lastWeekRollup(config, "2026-02-25"), null);
+		assert.strictEqual(lastWeekRollup(config, "2026-06-01"), null);
+	});
+
+	it("is left out when there are no rollups", () => {
+		const config = makeConfig(tmpDir);
+		ensureDirs(config);
+		fs.writeFileSync(config.memoryFile, "fact", "utf-8");
+		assert.ok(!buildMemoryContext(config).includes("Last week"));
+	});
+});
+
+describe("rollup files", () => {
+	it("are searchable and readable through the daily target", () => {
+		const config = makeConfig(tmpDir);
+		writeFile(rollupPath(config, "monthly", "2026-01"), "month");
+		writeFile(rollupPath(config, "weekly", "2026-W04"), "week");
+		const names = listMemoryFiles(config).filter(f => f.scope === "daily").map(f => f.name);
+		assert.deepStrictEqual(names, ["daily/weekly/2026-W04.md", "daily/monthly/2026-01.md"]);
+		assert.deepStrictEqual(targetFile(config, "daily", { date: "2026-W04" }), {
+			path: path.join(config.dailyDir, "weekly", "2026-W04.md"),
+			name: "daily/weekly/2026-W04.md",
+		});
+		assert.strictEqual(targetFile(config, "daily", { date: "2026-01" })!.name, "daily/monthly/2026-01.md");
+	});
+});
@@ -1,6 +1,33 @@
 import { describe, it } from "node:test";
 import assert from "node:assert";
-import { parseScratchpad, serializeScratchpad, type ScratchpadItem } from "../lib.ts";
+import {
+	parseScratchpad,
+	serializeScratchpad,
+	assignItemIds,
+	newItemId,
+	findScratchpadItems,
+	formatScratchpadList,
+	itemText,
+	filterScratchpadItems,
+	sortScratchpadItems,
+	scratchpadAttention,
+	parseScratchpadSections,
+	parseScratchpadIntros,
+	subtreeEnd,
+	insertSubtask,
+	partitionDone,
+	completionDay,
+	formatCompletedItem,
+	archiveCompletedItems,
+	appendCompleted,
+	removeItem,
+	moveItem,
+	parseAnnotations,
+	newScratchpadItem,
+	openItemsWithAncestors,
+	scratchpadOutline,
+	type ScratchpadItem,
+} from "../lib.ts";
 
 describe("parseScratchpad", () => {
 	it("parses open items", () => {
@@ -175,6 +202,42 @@ describe("parseScratchpad + serializeScratchpad round-trip", () => {
 		assert.strictEqual(parsed.length, 0);
 	});
 
+	it("keeps free text and blank-line groups in place", () => {
+		const content = [
+			"# Scratchpad",
+			"",
+			"Things to look at before the release.",
+			"",
+			"<!-- ts [sid] id:aaaa -->",
+			"- [ ] First",
+			"  see the deploy notes in notes/deploy.md",
+			"",
+			"<!-- ts [sid] id:bbbb -->",
+			"- [ ] Second",
+			"",
+			"## Later",
+			"",
+			"Parked until Q3:",
+			"<!-- ts [sid] id:cccc -->",
+			"- [x] Third",
+			"<!-- not an item stamp -->",
+			"trailing note",
+			"",
+		].join("\n");
+		const items = parseScratchpad(content);
+		assert.deepStrictEqual(items.map(i => i.notes), [["  see the deploy notes in notes/deploy.md", ""], undefined, ["<!-- not an item stamp -->", "trailing note"]]);
+		const intros = parseScratchpadIntros(content);
+		assert.deepStrictEqual([...intros], [[undefined, ["Things to look at before the release.", ""]], ["Later", ["Parked until Q3:"]]]);
+		assert.strictEqual(serializeScratchpad(items, parseScratchpadSections(content), intros), content);
+	});
+
+	it("moves an item's notes with it", () => {
+		const content = "# Scratchpad\n\n- [ ] A\nnote for A\n- [ ] B\n";
+		const items = parseScratchpad(content);
+		items.reverse();
+		assert.strictEqual(serializeScratchpad(items, [], parseScratchpadIntros(content)), "# Scratchpad\n\n- [ ] B\n- [ ] A\nnote for A\n");
+	});
+
 	it("round-trips complex content with special chars", () => {
 		const items: ScratchpadItem[] = [
 			{ done: false, text: "Fix `regex` in $PATH (urgent!) — ref #123", meta: "<!-- 2026-02-18 01:37:44 [3b717a40] -->" },
@@ -189,3 +252,482 @@ describe("parseScratchpad + serializeScratchpad round-trip", () => {
 		assert.strictEqual(parsed[2].meta, "");
 	});
 });
+
+describe("scratchpad item ids", () => {
+	it("parses the id out of the meta comment", () => {
+		const items = parseScratchpad("<!-- 2026-02-18 10:00:00+00:00 [abc12345] id:k3f9 -->\n- [ ] Task");
+		assert.strictEqual(items[0].id, "k3f9");
+		assert.strictEqual(items[0].meta, "<!-- 2026-02-18 10:00:00+00:00 [abc12345] -->");
+	});
+
+	it("parses an id-only comment", () => {
+		const items = parseScratchpad("<!-- id:zz01 -->\n- [ ] Task");
+		assert.strictEqual(items[0].id, "zz01");
+		assert.strictEqual(items[0].meta, "");
+	});
+
+	it("leaves id undefined for legacy items", () => {
+		const items = parseScratchpad("<!-- 2026-02-18 10:00:00 [abc12345] -->\n- [ ] Legacy");
+		assert.strictEqual(items[0].id, undefined);
+	});
+
+	it("round-trips ids through serialize", () => {
+		const items: ScratchpadItem[] = [
+			{ done: false, text: "With meta", meta: "<!-- ts [sid] -->", id: "a1b2" },
+			{ done: true, text: "Without meta", meta: "", id: "c3d4" },
+		];
+		const serialized = serializeScratchpad(items);
+		assert.ok(serialized.includes("<!-- ts [sid] id:a1b2 -->"));
+		assert.ok(serialized.includes("<!-- id:c3d4 -->"));
+		assert.deepStrictEqual(parseScratchpad(serialized), items);
+	});
+});
+
+describe("assignItemIds", () => {
+	it("assigns unique ids only to items that lack one", () => {
+		const items = parseScratchpad("- [ ] A\n<!-- id:keep -->\n- [ ] B\n- [x] C");
+		assert.strictEqual(assignItemIds(items), true);
+		assert.strictEqual(items[1].id, "keep");
+		const ids = items.map(i => i.id);
+		assert.ok(ids.every(id => /^[a-z0-9]{4}$/.test(id!)));
+		assert.strictEqual(new Set(ids).size, 3);
+	});
+
+	it("reports no change when every item already has an id", () => {
+		const items: ScratchpadItem[] = [{ done: false, text: "A", meta: "", id: "aaaa" }];
+		assert.strictEqual(assignItemIds(items), false);
+	});
+
+	it("migrates a legacy file so ids survive a round-trip", () => {
+		const items = parseScratchpad("# Scratchpad\n\n<!-- 2026-02-18 10:00:00 [abc12345] -->\n- [ ] Legacy");
+		assignItemIds(items);
+		const reparsed = parseScratchpad(serializeScratchpad(items));
+		assert.strictEqual(reparsed[0].id, items[0].id);
+		assert.strictEqual(reparsed[0].meta, "<!-- 2026-02-18 10:00:00 [abc12345] -->");
+	});
+});
+
+describe("newItemId", () => {
+	it("avoids taken ids", () => {
+		const taken = new Set<string>();
+		for (let i = 0; i < 200; i++) taken.add(newItemId(taken));
+		assert.strictEqual(taken.size, 200);
+	});
+});
+
+describe("findScratchpadItems", () => {
+	const items: ScratchpadItem[] = [
+		{ done: false, text: "fix test X", meta: "", id: "aaaa" },
+		{ done: false, text: "fix test Y", meta: "", id: "bbbb" },
+		{ done: true, text: "fix test Z", meta: "", id: "cccc" },
+		{ done: false, text: "fix test", meta: "", id: "dddd" },
+	];
+	const open = (i: ScratchpadItem) => !i.done;
+
+	it("matches by id, with or without #", () => {
+		assert.deepStrictEqual(findScratchpadItems(items, "bbbb", open).map(i => i.id), ["bbbb"]);
+		assert.deepStrictEqual(findScratchpadItems(items, "#bbbb", open).map(i => i.id), ["bbbb"]);
+	});
+
+	it("returns every candidate for an ambiguous substring", () => {
+		assert.deepStrictEqual(findScratchpadItems(items, "test", open).map(i => i.id), ["aaaa", "bbbb", "dddd"]);
+	});
+
+	it("prefers an exact text match over substring matches", () => {
+		assert.deepStrictEqual(findScratchpadItems(items, "Fix Test", open).map(i => i.id), ["dddd"]);
+	});
+
+	it("only considers candidates passing the filter", () => {
+		assert.deepStrictEqual(findScratchpadItems(items, "test Z", open), []);
+		assert.deepStrictEqual(findScratchpadItems(items, "test Z").map(i => i.id), ["cccc"]);
+	});
+});
+
+describe("formatScratchpadList", () => {
+	it("shows checkbox, text and id", () => {
+		const text = formatScratchpadList([
+			{ done: false, text: "Open", meta: "<!-- ts -->", id: "aaaa" },
+			{ done: true, text: "Done", meta: "" },
+		]);
+		assert.strictEqual(text, "- [ ] Open (id: aaaa)\n- [x] Done");
+	});
+});
+
+describe("scratchpad annotations", () => {
+	it("parses trailing priority, due date and tags", () => {
+		const [item] = parseScratchpad("- [ ] Fix login bug !p1 due:2026-02-20 #auth #backend");
+		assert.strictEqual(item.text, "Fix login bug");
+		assert.strictEqual(item.priority, 1);
+		assert.strictEqual(item.due, "2026-02-20");
+		assert.deepStrictEqual(item.tags, ["auth", "backend"]);
+	});
+
+	it("accepts annotations in any trailing order", () => {
+		const [item] = parseScratchpad("- [ ] Task #ops due:2026-03-01 !p3");
+		assert.strictEqual(item.text, "Task");
+		assert.strictEqual(item.priority, 3);
+		assert.strictEqual(item.due, "2026-03-01");
+		assert.deepStrictEqual(item.tags, ["ops"]);
+	});
+
+	it("leaves annotation-like tokens in the middle of the text alone", () => {
+		const [item] = parseScratchpad("- [ ] Ask about #infra budget");
+		assert.strictEqual(item.text, "Ask about #infra budget");
+		assert.strictEqual(item.tags, undefined);
+	});
+
+	it("does not treat numeric references as tags", () => {
+		const [item] = parseScratchpad("- [ ] Review PR #123");
+		assert.strictEqual(item.text, "Review PR #123");
+	});
+
+	it("keeps text that consists only of annotation-like tokens", () => {
+		const [item] = parseScratchpad("- [ ] #urgent");
+		assert.strictEqual(item.text, "#urgent");
+	});
+
+	it("round-trips annotations through serialize", () => {
+		const items: ScratchpadItem[] = [
+			{ done: false, text: "Ship it", meta: "<!-- ts [sid] -->", id: "a1b2", priority: 2, due: "2026-02-20", tags: ["release"] },
+		];
+		const serialized = serializeScratchpad(items);
+		assert.ok(serialized.includes("- [ ] Ship it !p2 due:2026-02-20 #release"));
+		assert.deepStrictEqual(parseScratchpad(serialized), items);
+	});
+
+	it("shows annotations in list output", () => {
+		assert.strictEqual(itemText({ done: false, text: "X", meta: "", priority: 1, tags: ["a"] }), "X !p1 #a");
+	});
+});
+
+describe("filterScratchpadItems / sortScratchpadItems", () => {
+	const items = parseScratchpad([
+		"- [ ] Low !p3 #ops",
+		"- [ ] Late due:2026-02-01",
+		"- [ ] Urgent !p1 due:2026-03-01 #ops",
+		"- [x] Late but done due:2026-01-01",
+		"- [ ] Plain",
+	].join("\n"));
+
+	it("filters by tag, case-insensitively and with or without #", () => {
+		assert.deepStrictEqual(filterScratchpadItems(items, { tag: "#OPS" }).map(i => i.text), ["Low", "Urgent"]);
+	});
+
+	it("filters by priority threshold", () => {
+		assert.deepStrictEqual(filterScratchpadItems(items, { maxPriority: 1 }).map(i => i.text), ["Urgent"]);
+		assert.deepStrictEqual(filterScratchpadItems(items, { maxPriority: 3 }).map(i => i.text), ["Low", "Urgent"]);
+	});
+
+	it("filters overdue open items", () => {
+		assert.deepStrictEqual(filterScratchpadItems(items, { overdue: true, today: "2026-02-15" }).map(i => i.text), ["Late"]);
+	});
+
+	it("sorts by priority with unprioritized items last", () => {
+		assert.deepStrictEqual(sortScratchpadItems(items, "priority").map(i => i.text), ["Urgent", "Low", "Late", "Late but done", "Plain"]);
+	});
+
+	it("sorts by due date with undated items last", () => {
+		assert.deepStrictEqual(sortScratchpadItems(items, "due").map(i => i.text), ["Late but done", "Late", "Urgent", "Low", "Plain"]);
+	});
+
+	it("does not mutate the input", () => {
+		sortScratchpadItems(items, "priority");
+		assert.strictEqual(items[0].text, "Low");
+	});
+});
+
+describe("scratchpadAttention", () => {
+	it("flags overdue and p1 open items", () => {
+		const items = parseScratchpad("<!-- id:aaaa -->\n- [ ] Late due:2026-02-01\n- [ ] Urgent !p1\n- [ ] Fine due:2026-03-01\n- [x] Done !p1");
+		assert.strictEqual(scratchpadAttention(items, "2026-02-15"), [
+			"**Needs attention:**",
+			"- Late (overdue since 2026-02-01, id: aaaa)",
+			"- Urgent (high priority)",
+		].join("\n"));
+	});
+
+	it("returns an empty string when nothing needs attention", () => {
+		assert.strictEqual(scratchpadAttention(parseScratchpad("- [ ] Calm !p2"), "2026-02-15"), "");
+	});
+});
+
+describe("scratchpad subtasks and sections", () => {
+	const NESTED = [
+		"# Scratchpad",
+		"",
+		"- [ ] Loose item",
+		"",
+		"## Backend",
+		"",
+		"<!-- 2026-02-18 10:00:00+00:00 [abc12345] id:par1 -->",
+		"- [ ] Migrate database",
+		"  <!-- id:sub1 -->",
+		"  - [x] Write migration",
+		"  - [ ] Run migration",
+		"    - [ ] Check replicas",
+		"- [ ] Another backend task",
+		"",
+		"## Empty",
+		"",
+		"## Frontend",
+		"",
+		"- [ ] Fix button",
+		"",
+	].join("\n");
+
+	it("parses depth and section", () => {
+		const items = parseScratchpad(NESTED);
+		assert.deepStrictEqual(items.map(i => [i.text, i.depth ?? 0, i.section]), [
+			["Loose item", 0, undefined],
+			["Migrate database", 0, "Backend"],
+			["Write migration", 1, "Backend"],
+			["Run migration", 1, "Backend"],
+			["Check replicas", 2, "Backend"],
+			["Another backend task", 0, "Backend"],
+			["Fix button", 0, "Frontend"],
+		]);
+		assert.strictEqual(items[2].id, "sub1");
+	});
+
+	it("accepts four-space and tab indentation", () => {
+		const items = parseScratchpad("- [ ] A\n    - [ ] B\n\t\t- [ ] C\n- [ ] D");
+		assert.deepStrictEqual(items.map(i => i.depth ?? 0), [0, 1, 2, 0]);
+	});
+
+	it("parses section names including empty sections", () => {
+		assert.deepStrictEqual(parseScratchpadSections(NESTED), ["Backend", "Empty", "Frontend"]);
+	});
+
+	it("round-trips nested items and sections losslessly", () => {
+		const items = parseScratchpad(NESTED);
+		assert.strictEqual(serializeScratchpad(items, parseScratchpadSections(NESTED)), NESTED);
+	});
+
+	it("groups items by section even when appended out of order", () => {
+		const items = parseScratchpad(NESTED);
+		items.push({ done: false, text: "Late backend item", meta: "", section: "Backend" });
+		const reparsed = parseScratchpad(serializeScratchpad(items, parseScratchpadSections(NESTED)));
+		assert.deepStrictEqual(reparsed.filter(i => i.section === "Backend").map(i => i.text).slice(-1), ["Late backend item"]);
+		assert.strictEqual(reparsed[reparsed.length - 1].text, "Fix button");
+	});
+});
+
+describe("subtreeEnd / insertSubtask", () => {
+	it("finds the end of an item's subtree", () => {
+		const items = parseScratchpad("- [ ] A\n  - [ ] A1\n    - [ ] A1a\n  - [ ] A2\n- [ ] B");
+		assert.strictEqual(subtreeEnd(items, 0), 4);
+		assert.strictEqual(subtreeEnd(items, 1), 3);
+		assert.strictEqual(subtreeEnd(items, 4), 5);
+	});
+
+	it("inserts a subtask after the parent's existing children", () => {
+		const items = parseScratchpad("## S\n- [ ] A\n  - [ ] A1\n- [ ] B");
+		const child: ScratchpadItem = { done: false, text: "A2", meta: "" };
+		insertSubtask(items, items[0], child);
+		assert.deepStrictEqual(items.map(i => i.text), ["A", "A1", "A2", "B"]);
+		assert.strictEqual(child.depth, 1);
+		assert.strictEqual(child.section, "S");
+	});
+});
+
+describe("partitionDone", () => {
+	it("removes done subtrees and keeps done parents with open children", () => {
+		const items = parseScratchpad([
+			"- [x] Finished parent",
+			"  - [x] Finished child",
+			"- [x] Parent with open work",
+			"  - [ ] Open child",
+			"  - [x] Done child",
+			"- [ ] Open",
+		].join("\n"));
+		const { kept, removed } = partitionDone(items);
+		assert.deepStrictEqual(kept.map(i => i.text), ["Parent with open work", "Open child", "Open"]);
+		assert.deepStrictEqual(removed.map(i => i.text), ["Finished parent", "Finished child", "Done child"]);
+	});
+});
+
+describe("openItemsWithAncestors / scratchpadOutline", () => {
+	const items = parseScratchpad([
+		"- [x] Done parent",
+		"  - [ ] Open child",
+		"- [x] Fully done",
+		"## Later",
+		"<!-- id:aaaa -->",
+		"- [ ] Sectioned",
+	].join("\n"));
+
+	it("keeps done ancestors of open items", () => {
+		assert.deepStrictEqual(openItemsWithAncestors(items).map(i => i.text), ["Done parent", "Open child", "Sectioned"]);
+	});
+
+	it("renders one block per heading and per top-level item", () => {
+		assert.deepStrictEqual(scratchpadOutline(openItemsWithAncestors(items), ["Later"], { ids: true }), [
+			"- [x] Done parent\n  - [ ] Open child",
+			"### Later",
+			"- [ ] Sectioned (id: aaaa)",
+		]);
+	});
+});
+
+describe("removeItem", () => {
+	it("removes a leaf item", () => {
+		const items = parseScratchpad("- [ ] A\n- [ ] B");
+		const removed = removeItem(items, items[0]);
+		assert.deepStrictEqual(removed!.map(i => i.text), ["A"]);
+		assert.deepStrictEqual(items.map(i => i.text), ["B"]);
+	});
+
+	it("refuses to remove an item with subtasks unless cascading", () => {
+		const items = parseScratchpad("- [ ] A\n  - [ ] A1\n- [ ] B");
+		assert.strictEqual(removeItem(items, items[0]), null);
+		assert.strictEqual(items.length, 3);
+		assert.strictEqual(removeItem(items, items[0], true)!.length, 2);
+		assert.deepStrictEqual(items.map(i => i.text), ["B"]);
+	});
+});
+
+describe("moveItem", () => {
+	it("moves a top-level item with its subtasks", () => {
+		const items = parseScratchpad("- [ ] A\n  - [ ] A1\n- [ ] B\n- [ ] C");
+		moveItem(items, items[0], "bottom");
+		assert.deepStrictEqual(items.map(i => i.text), ["B", "C", "A", "A1"]);
+		moveItem(items, items[2], 2);
+		assert.deepStrictEqual(items.map(i => i.text), ["B", "A", "A1", "C"]);
+		moveItem(items, items[3], "top");
+		assert.deepStrictEqual(items.map(i => i.text), ["C", "B", "A", "A1"]);
+	});
+
+	it("keeps subtasks under their parent", () => {
+		const items = parseScratchpad("- [ ] A\n  - [ ] A1\n  - [ ] A2\n- [ ] B");
+		moveItem(items, items[2], "top");
+		assert.deepStrictEqual(items.map(i => i.text), ["A", "A2", "A1", "B"]);
+		moveItem(items, items[1], "bottom");
+		assert.deepStrictEqual(items.map(i => i.text), ["A", "A1", "A2", "B"]);
+	});
+
+	it("moves only among siblings in the same section", () => {
+		const items = parseScratchpad("- [ ] A\n## S\n- [ ] B\n- [ ] C");
+		moveItem(items, items[2], "top");
+		assert.deepStrictEqual(items.map(i => i.text), ["A", "C", "B"]);
+	});
+
+	it("moves an item into another section as a top-level item", () => {
+		const items = parseScratchpad("- [ ] A\n  - [ ] A1\n    - [ ] A1a\n## S\n- [ ] B");
+		moveItem(items, items[1], "top", "S");
+		assert.deepStrictEqual(items.map(i => i.text), ["A", "A1", "A1a", "B"]);
+		assert.strictEqual(items[1].section, "S");
+		assert.strictEqual(items[1].depth, undefined);
+		assert.strictEqual(items[2].depth, 1);
+		assert.strictEqual(serializeScratchpad(items, ["S"]), "# Scratchpad\n\n- [ ] A\n\n## S\n\n- [ ] A1\n  - [ ] A1a\n- [ ] B\n");
+	});
+});
+
+describe("edited stamps", () => {
+	it("round-trips the edit stamp alongside the original meta and id", () => {
+		const content = "<!-- 2026-02-18 10:00:00+00:00 [abc12345] edited 2026-02-19 09:00:00+00:00 [def67890] id:k3f9 -->\n- [ ] Task";
+		const [item] = parseScratchpad(content);
+		assert.strictEqual(item.meta, "<!-- 2026-02-18 10:00:00+00:00 [abc12345] -->");
+		assert.strictEqual(item.edited, "2026-02-19 09:00:00+00:00 [def67890]");
+		assert.strictEqual(item.id, "k3f9");
+		assert.ok(serializeScratchpad([item]).includes(content));
+	});
+});
+
+describe("parseAnnotations", () => {
+	it("splits trailing annotations off free text", () => {
+		assert.deepStrictEqual(parseAnnotations("Ship it !p1 due:2026-03-01 #release"), {
+			text: "Ship it",
+			priority: 1,
+			due: "2026-03-01",
+			tags: ["release"],
+		});
+	});
+});
+
+describe("newScratchpadItem", () => {
+	it("parses annotations out of a single added item", () => {
+		const item = newScratchpadItem("Fix login !p1 due:2026-02-20 #auth ", "<!-- 2026-02-18 10:00:00+00:00 [abc] -->", "a1b2");
+		assert.deepStrictEqual(item, {
+			done: false,
+			text: "Fix login",
+			priority: 1,
+			due: "2026-02-20",
+			tags: ["auth"],
+			meta: "<!-- 2026-02-18 10:00:00+00:00 [abc] -->",
+			id: "a1b2",
+		});
+		const other: ScratchpadItem = { done: false, text: "Later", meta: "", id: "c3d4" };
+		assert.deepStrictEqual(sortScratchpadItems([other, item], "priority").map(i => i.id), ["a1b2", "c3d4"]);
+		assert.deepStrictEqual(filterScratchpadItems([other, item], { tag: "auth" }).map(i => i.id), ["a1b2"]);
+	});
+});
+
+describe("completed stamps and archiving", () => {
+	const content = [
+		"<!-- 2026-02-18 10:00:00+00:00 [abc12345] completed 2026-02-19 23:30:00+00:00 [def67890] id:k3f9 -->",
+		"- [x] Ship it #release",
+		"<!-- 2026-02-18 11:00:00+00:00 [abc12345] id:m2p4 -->",
+		"  - [x] Tag build",
+		"<!-- id:q8r1 -->",
+		"- [x] Legacy item",
+	].join("\n");
+
+	it("round-trips the completion stamp", () => {
+		const [item] = parseScratchpad(content);
+		assert.strictEqual(item.completed, "2026-02-19 23:30:00+00:00 [def67890]");
+		assert.strictEqual(item.meta, "<!-- 2026-02-18 10:00:00+00:00 [abc12345] -->");
+		assert.ok(serializeScratchpad([item]).includes(content.split("\n")[0]));
+	});
+
+	it("files an item under its completion day, honoring timezone and rollover", () => {
+		const [item, , legacy] = parseScratchpad(content);
+		assert.strictEqual(completionDay(item, "2026-03-01", { timezone: "UTC" }), "2026-02-19");
+		assert.strictEqual(completionDay(item, "2026-03-01", { timezone: "Asia/Tokyo" }), "2026-02-20");
+		assert.strictEqual(completionDay(item, "2026-03-01", { timezone: "Asia/Tokyo", rolloverHour: 9 }), "2026-02-19");
+		assert.strictEqual(completionDay(legacy, "2026-03-01"), "2026-03-01");
+	});
+
+	it("formats added and completed times", () => {
+		const [item, , legacy] = parseScratchpad(content);
+		assert.strictEqual(
+			formatCompletedItem(item),
+			"- [x] Ship it #release (added 2026-02-18 10:00:00+00:00 [abc12345], completed 2026-02-19 23:30:00+00:00 [def67890])",
+		);
+		assert.strictEqual(formatCompletedItem(legacy), "- [x] Legacy item");
+	});
+
+	it("keeps subtrees together under the root's day", () => {
+		const archived = archiveCompletedItems(parseScratchpad(content), "2026-03-01", { timezone: "UTC" });
+		assert.deepStrictEqual([...archived.keys()], ["2026-02-19", "2026-03-01"]);
+		assert.strictEqual(archived.get("2026-02-19")!.length, 2);
+		assert.ok(archived.get("2026-02-19")![1].startsWith("  - [x] Tag build (added"));
+	});
+
+	it("archives an item's notes below it", () => {
+		const items = parseScratchpad("- [x] Rotate keys\n    done in vault, see runbook\n\n  - [x] Update CI secret\n  ci note\n");
+		assert.deepStrictEqual(archiveCompletedItems(items, "2026-03-01").get("2026-03-01"), [
+			"- [x] Rotate keys",
+			"  done in vault, see runbook",
+			"  - [x] Update CI secret",
+			"    ci note",
+		]);
+	});
+});
+
+describe("appendCompleted", () => {
+	it("creates the section at the end of the log", () => {
+		assert.strictEqual(
+			appendCompleted("<!-- ts -->\nDid things\n", ["- [x] A"]),
+			"<!-- ts -->\nDid things\n\n## Completed\n\n- [x] A\n",
+		);
+		assert.strictEqual(appendCompleted("", ["- [x] A"]), "## Completed\n\n- [x] A\n");
+	});
+
+	it("appends to an existing section before the next heading", () => {
+		const log = "## Completed\n\n- [x] A\n\n## Notes\n\nstuff\n";
+		assert.strictEqual(
+			appendCompleted(log, ["- [x] B"]),
+			"## Completed\n\n- [x] A\n- [x] B\n\n## Notes\n\nstuff\n",
+		);
+	});
+});
@@ -0,0 +1,156 @@
+import { describe, it, beforeEach, afterEach } from "node:test";
+import assert from "node:assert";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { searchMemory, rankedSearch, ensureDirs, globToRegExp, stampDate, todayStr, addDays, QuerySyntaxError } from "../lib.ts";
+import { makeTempDir, cleanup, makeConfig, writeFile } from "./helpers.ts";
+
+let tmpDir: string;
+
+beforeEach(() => { tmpDir = makeTempDir(); });
+afterEach(() => { cleanup(tmpDir); });
+
+function seed(tmp: string) {
+	const config = makeConfig(tmp);
+	ensureDirs(config);
+	fs.writeFileSync(config.memoryFile, [
+		"<!-- 2026-02-01 09:00:00+00:00 [aaaa] -->",
+		"deploy old fact",
+		"",
+		"<!-- 2026-02-18 09:00:00+00:00 [bbbb] -->",
+		"deploy new fact",
+	].join("\n"), "utf-8");
+	writeFile(`${config.dailyDir}/2026-02-10.md`, "deploy in daily ten");
+	writeFile(`${config.dailyDir}/2026-02-18.md`, "deploy in daily eighteen");
+	writeFile(`${config.notesDir}/ops.md`, "deploy in notes");
+	writeFile(`${config.notesDir}/other.md`, "deploy elsewhere");
+	return config;
+}
+
+function sessionLine(obj: object): string {
+	return JSON.stringify(obj);
+}
+
+describe("globToRegExp", () => {
+	it("matches single path segments with *", () => {
+		assert.ok(globToRegExp("notes/*.md").test("notes/ops.md"));
+		assert.ok(!globToRegExp("notes/*.md").test("notes/sub/ops.md"));
+	});
+
+	it("matches across segments with **", () => {
+		assert.ok(globToRegExp("sessions/**").test("sessions/--home-x--/abc.jsonl"));
+	});
+
+	it("escapes regex metacharacters", () => {
+		assert.ok(globToRegExp("a+b.md").test("a+b.md"));
+		assert.ok(!globToRegExp("a+b.md").test("aab.md"));
+	});
+});
+
+describe("stampDate", () => {
+	it("extracts the date from stamp lines", () => {
+		assert.strictEqual(stampDate("<!-- 2026-02-18 10:00:00-08:00 [abc] -->"), "2026-02-18");
+		assert.strictEqual(stampDate("<!-- last updated: 2026-02-18 10:00:00 [abc] -->"), "2026-02-18");
+	});
+
+	it("ignores ordinary lines", () => {
+		assert.strictEqual(stampDate("Met on 2026-02-18"), undefined);
+	});
+});
+
+describe("search scope", () => {
+	for (const search of [searchMemory, rankedSearch]) {
+		it(`${search.name} limits results to the requested scopes`, () => {
+			const config = seed(tmpDir);
+			const daily = search(config, "deploy", 20, { scope: ["daily"] });
+			assert.ok(daily.lineResults.length > 0);
+			assert.ok(daily.lineResults.every(r => r.file.startsWith("daily/")));
+
+			const notes = search(config, "deploy", 20, { scope: ["notes"] });
+			assert.deepStrictEqual([...new Set(notes.lineResults.map(r => r.file))].sort(), ["notes/ops.md", "notes/other.md"]);
+
+			const root = search(config, "deploy", 20, { scope: ["root"] });
+			assert.ok(root.lineResults.every(r => r.file === "MEMORY.md"));
+		});
+
+		it(`${search.name} filters by file glob`, () => {
+			const config = seed(tmpDir);
+			const result = search(config, "deploy", 20, { file: "ops.md" });
+			assert.deepStrictEqual(result.lineResults.map(r => r.file), ["notes/ops.md"]);
+		});
+
+		it(`${search.name} filters daily logs by filename date`, () => {
+			const config = seed(tmpDir);
+			const result = search(config, "deploy", 20, { scope: ["daily"], since: "2026-02-15" });
+			assert.deepStrictEqual(result.lineResults.map(r => r.file), ["daily/2026-02-18.md"]);
+		});
+
+		it(`${search.name} filters stamped entries by their timestamp`, () => {
+			const config = seed(tmpDir);
+			const result = search(config, "deploy", 20, { scope: ["root"], since: "2026-02-10" });
+			assert.deepStrictEqual(result.lineResults.map(r => r.text), ["deploy new fact"]);
+			const older = search(config, "deploy", 20, { scope: ["root"], until: "2026-02-10" });
+			assert.deepStrictEqual(older.lineResults.map(r => r.text), ["deploy old fact"]);
+		});
+
+		it(`${search.name} excludes undated lines when a date filter is set`, () => {
+			const config = seed(tmpDir);
+			const result = search(config, "deploy", 20, { scope: ["notes"], since: "2020-01-01" });
+			assert.strictEqual(result.lineResults.length, 0);
+		});
+	}
+
+	it("accepts relative dates", () => {
+		const config = seed(tmpDir);
+		const today = todayStr(config);
+		writeFile(`${config.dailyDir}/${today}.md`, "deploy today");
+		writeFile(`${config.dailyDir}/${addDays(today, -10)}.md`, "deploy ten days ago");
+		const result = searchMemory(config, "deploy", 20, { scope: ["daily"], since: "7d" });
+		assert.deepStrictEqual(result.lineResults.map(r => r.text), ["deploy today"]);
+		assert.strictEqual(searchMemory(config, "deploy", 20, { scope: ["daily"], since: "today" }).lineResults.length, 1);
+	});
+
+	it("rejects invalid dates and inverted ranges", () => {
+		const config = seed(tmpDir);
+		assert.throws(() => searchMemory(config, "deploy", 20, { since: "last week" }), QuerySyntaxError);
+		assert.throws(() => searchMemory(config, "deploy", 20, { since: "2026-02-18", until: "2026-02-01" }), /is after/);
+	});
+});
+
+describe("sessions scope", () => {
+	function seedSession(config: ReturnType<typeof makeConfig>) {
+		const dir = path.join(config.sessionsDir, "--home-dev-project--");
+		writeFile(path.join(dir, "s1.jsonl"), [
+			sessionLine({ type: "session", timestamp: "2026-02-18T10:00:00Z", cwd: "/home/dev/project" }),
+			sessionLine({ type: "message", timestamp: "2026-02-18T10:01:00Z", message: { role: "user", content: "Please fix the flaky deploy script" } }),
+			sessionLine({ type: "message", timestamp: "2026-02-18T10:02:00Z", message: { role: "assistant", content: [{ type: "text", text: "Fixed deploy retries" }] } }),
+			sessionLine({ type: "message", timestamp: "2026-02-18T10:03:00Z", message: { role: "toolResult", content: "deploy output" } }),
+		].join("\n"));
+	}
+
+	it("is not searched by default", () => {
+		const config = makeConfig(tmpDir);
+		ensureDirs(config);
+		seedSession(config);
+		assert.strictEqual(searchMemory(config, "deploy").lineResults.length, 0);
+	});
+
+	for (const search of [searchMemory, rankedSearch]) {
+		it(`${search.name} searches user and assistant messages`, () => {
+			const config = makeConfig(tmpDir);
+			ensureDirs(config);
+			seedSession(config);
+			const result = search(config, "deploy", 20, { scope: ["sessions"] });
+			assert.deepStrictEqual(result.lineResults.map(r => r.line).sort(), [2, 3]);
+			assert.ok(result.lineResults.every(r => r.file === "sessions/--home-dev-project--/s1.jsonl"));
+		});
+	}
+
+	it("dates session messages by their timestamp", () => {
+		const config = makeConfig(tmpDir, { timezone: "UTC" });
+		ensureDirs(config);
+		seedSession(config);
+		assert.strictEqual(searchMemory(config, "deploy", 20, { scope: ["sessions"], since: "2026-02-19" }).lineResults.length, 0);
+		assert.strictEqual(searchMemory(config, "deploy", 20, { scope: ["sessions"], until: "2026-02-18" }).lineResults.length, 2);
+	});
+});
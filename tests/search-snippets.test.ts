@@ -0,0 +1,116 @@
+import { describe, it, beforeEach, afterEach } from "node:test";
+import assert from "node:assert";
+import * as fs from "node:fs";
+import { groupSearchHits, formatFileHits, resolveDisplayPath, searchMemory, ensureDirs } from "../lib.ts";
+import { makeTempDir, cleanup, makeConfig, writeFile } from "./helpers.ts";
+
+let tmpDir: string;
+
+beforeEach(() => { tmpDir = makeTempDir(); });
+afterEach(() => { cleanup(tmpDir); });
+
+const LOG = [
+	"# Log",                                       // 1
+	"",                                            // 2
+	"## Deploys",                                  // 3
+	"<!-- 2026-02-18 10:00:00+00:00 [abc12345] -->", // 4
+	"- shipped api",                               // 5
+	"- rollback plan ready",                       // 6
+	"- shipped web",                               // 7
+	"",                                            // 8
+	"## Other",                                    // 9
+	"- unrelated",                                 // 10
+	"- shipped docs",                              // 11
+].join("\n");
+
+describe("resolveDisplayPath", () => {
+	it("maps display names back to their directories", () => {
+		const config = makeConfig(tmpDir);
+		assert.strictEqual(resolveDisplayPath(config, "MEMORY.md"), config.memoryFile);
+		assert.strictEqual(resolveDisplayPath(config, "daily/2026-02-18.md"), `${config.dailyDir}/2026-02-18.md`);
+		assert.strictEqual(resolveDisplayPath(config, "notes/a.md"), `${config.notesDir}/a.md`);
+		assert.strictEqual(resolveDisplayPath(config, "sessions/d/s.jsonl"), `${config.sessionsDir}/d/s.jsonl`);
+	});
+});
+
+describe("groupSearchHits", () => {
+	it("groups hits per file in order of first appearance", () => {
+		const config = makeConfig(tmpDir);
+		ensureDirs(config);
+		fs.writeFileSync(config.memoryFile, "alpha\n\n\nbeta", "utf-8");
+		writeFile(`${config.notesDir}/n.md`, "gamma");
+		const groups = groupSearchHits(config, [
+			{ file: "notes/n.md", line: 1, text: "gamma", score: 2 },
+			{ file: "MEMORY.md", line: 4, text: "beta", score: 1.5 },
+			{ file: "MEMORY.md", line: 1, text: "alpha", score: 1 },
+		]);
+		assert.deepStrictEqual(groups.map(g => g.file), ["notes/n.md", "MEMORY.md"]);
+		assert.deepStrictEqual(groups[1].windows.map(w => w.lines[0].line), [1, 4]);
+		assert.strictEqual(groups[1].score, 1.5);
+	});
+
+	it("adds context lines and merges overlapping windows", () => {
+		const config = makeConfig(tmpDir);
+		ensureDirs(config);
+		writeFile(`${config.dailyDir}/2026-02-18.md`, LOG);
+		const hits = searchMemory(config, "shipped").lineResults;
+		const [group] = groupSearchHits(config, hits, 1);
+		assert.strictEqual(group.windows.length, 2);
+		assert.deepStrictEqual(group.windows[0].lines.map(l => l.line), [4, 5, 6, 7, 8]);
+		assert.deepStrictEqual(group.windows[0].lines.filter(l => l.hit).map(l => l.line), [5, 7]);
+		assert.deepStrictEqual(group.windows[1].lines.map(l => l.line), [10, 11]);
+	});
+
+	it("merges adjacent hits into one window", () => {
+		const config = makeConfig(tmpDir);
+		ensureDirs(config);
+		fs.writeFileSync(config.memoryFile, "alpha\nbeta", "utf-8");
+		const [group] = groupSearchHits(config, [
+			{ file: "MEMORY.md", line: 1, text: "alpha" },
+			{ file: "MEMORY.md", line: 2, text: "beta" },
+		]);
+		assert.strictEqual(group.windows.length, 1);
+		assert.deepStrictEqual(group.windows[0].lines.map(l => l.hit), [true, true]);
+	});
+
+	it("reports the enclosing heading and owning stamp", () => {
+		const config = makeConfig(tmpDir);
+		ensureDirs(config);
+		writeFile(`${config.dailyDir}/2026-02-18.md`, LOG);
+		const hits = searchMemory(config, "shipped").lineResults;
+		const [group] = groupSearchHits(config, hits);
+		assert.strictEqual(group.windows[0].heading, "## Deploys");
+		assert.strictEqual(group.windows[0].stamp, "2026-02-18 10:00:00+00:00 [abc12345]");
+		assert.strictEqual(group.windows[2].heading, "## Other");
+	});
+
+	it("keeps session hits as single lines", () => {
+		const config = makeConfig(tmpDir);
+		const [group] = groupSearchHits(config, [{ file: "sessions/d/s.jsonl", line: 7, text: "deploy" }], 3);
+		assert.deepStrictEqual(group.windows, [{ lines: [{ line: 7, text: "deploy", hit: true }], score: undefined }]);
+	});
+});
+
+describe("formatFileHits", () => {
+	it("renders grep-style hit and context markers", () => {
+		const text = formatFileHits([{
+			file: "daily/2026-02-18.md",
+			score: 1.234,
+			windows: [
+				{ heading: "## Deploys", stamp: "2026-02-18 10:00:00+00:00 [abc12345]", lines: [
+					{ line: 5, text: "- shipped api", hit: true },
+					{ line: 6, text: "- rollback", hit: false },
+				] },
+				{ lines: [{ line: 11, text: "- shipped docs", hit: true }] },
+			],
+		}]);
+		assert.strictEqual(text, [
+			"daily/2026-02-18.md [1.23]",
+			"  (## Deploys · 2026-02-18 10:00:00+00:00 [abc12345])",
+			"  5: - shipped api",
+			"  6- - rollback",
+			"  --",
+			"  11: - shipped docs",
+		].join("\n"));
+	});
+});
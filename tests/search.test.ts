@@ -1,7 +1,7 @@
 import { describe, it, beforeEach, afterEach } from "node:test";
 import assert from "node:assert";
 import * as fs from "node:fs";
-import { searchMemory, ensureDirs } from "../lib.ts";
+import { searchMemory, ensureDirs, parseQuery, matchesQuery, QuerySyntaxError } from "../lib.ts";
 import { makeTempDir, cleanup, makeConfig, writeFile } from "./helpers.ts";
 
 let tmpDir: string;
@@ -124,3 +124,95 @@ describe("searchMemory", () => {
 		assert.strictEqual(result.lineResults[0].file, "notes.md");
 	});
 });
+
+describe("parseQuery", () => {
+	it("ANDs whitespace-separated terms", () => {
+		const q = parseQuery("postgres migration");
+		assert.strictEqual(q.groups.length, 1);
+		assert.deepStrictEqual(q.groups[0].map(c => c.kind === "term" && c.value), ["postgres", "migration"]);
+	});
+
+	it("parses phrases, exclusions and OR groups", () => {
+		const q = parseQuery('"trading bot" -paper OR deploy');
+		assert.strictEqual(q.groups.length, 2);
+		assert.deepStrictEqual(q.groups[0], [
+			{ kind: "phrase", value: "trading bot", negate: false },
+			{ kind: "term", value: "paper", negate: true },
+		]);
+		assert.deepStrictEqual(q.groups[1], [{ kind: "term", value: "deploy", negate: false }]);
+	});
+
+	it("parses regexes, including escaped slashes", () => {
+		const q = parseQuery("/a\\/b/");
+		const clause = q.groups[0][0];
+		assert.strictEqual(clause.kind, "regex");
+		assert.ok(clause.kind === "regex" && clause.regex.test("A/B"));
+	});
+
+	it("treats lowercase 'or' as a plain term", () => {
+		const q = parseQuery("this or that");
+		assert.strictEqual(q.groups.length, 1);
+		assert.strictEqual(q.groups[0].length, 3);
+	});
+
+	for (const [query, message] of [
+		["", /Empty query/],
+		['"unterminated', /Unterminated quote/],
+		["/unterminated", /Unterminated regex/],
+		["/(/", /Invalid regex/],
+		["OR foo", /needs a term on both sides/],
+		["foo OR", /needs a term after it/],
+		["foo OR OR bar", /needs a term on both sides/],
+		["- foo", /Expected a term after '-'/],
+		["-foo", /at least one term that is not excluded/],
+		['""', /Empty phrase/],
+	] as const) {
+		it(`rejects ${JSON.stringify(query)}`, () => {
+			assert.throws(() => parseQuery(query), (err: Error) => err instanceof QuerySyntaxError && message.test(err.message));
+		});
+	}
+});
+
+describe("matchesQuery", () => {
+	it("matches terms in any order, case-insensitively", () => {
+		assert.ok(matchesQuery(parseQuery("postgres migration"), "Migration for Postgres"));
+		assert.ok(!matchesQuery(parseQuery("postgres migration"), "Postgres upgrade"));
+	});
+
+	it("requires phrases to appear contiguously", () => {
+		assert.ok(matchesQuery(parseQuery('"trading bot"'), "Deployed Trading Bot"));
+		assert.ok(!matchesQuery(parseQuery('"trading bot"'), "bot for trading"));
+	});
+
+	it("excludes lines containing a negated term", () => {
+		assert.ok(matchesQuery(parseQuery("deploy -staging"), "deploy to prod"));
+		assert.ok(!matchesQuery(parseQuery("deploy -staging"), "deploy to staging"));
+	});
+
+	it("matches any OR alternative", () => {
+		const q = parseQuery("redis OR memcached");
+		assert.ok(matchesQuery(q, "use memcached"));
+		assert.ok(!matchesQuery(q, "use postgres"));
+	});
+
+	it("matches regexes case-insensitively", () => {
+		assert.ok(matchesQuery(parseQuery("/v\\d+\\.\\d+/"), "Released V2.3"));
+	});
+});
+
+describe("searchMemory query syntax", () => {
+	it("finds lines with all terms in any order", () => {
+		const config = makeConfig(tmpDir);
+		ensureDirs(config);
+		fs.writeFileSync(config.memoryFile, "Ran the migration for Postgres\nPostgres is fine", "utf-8");
+		const result = searchMemory(config, "postgres migration");
+		assert.strictEqual(result.lineResults.length, 1);
+		assert.strictEqual(result.lineResults[0].line, 1);
+	});
+
+	it("throws QuerySyntaxError instead of returning empty results", () => {
+		const config = makeConfig(tmpDir);
+		ensureDirs(config);
+		assert.throws(() => searchMemory(config, "/[/"), QuerySyntaxError);
+	});
+});
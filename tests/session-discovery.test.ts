@@ -0,0 +1,106 @@
+import { describe, it, beforeEach, afterEach } from "node:test";
+import assert from "node:assert";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import {
+	buildConfig,
+	defaultSessionExcludes,
+	matchesProjectPattern,
+	includesSessionCwd,
+	decodeSessionDir,
+	discoverSessionFiles,
+} from "../lib.ts";
+import { makeTempDir, cleanup, makeConfig } from "./helpers.ts";
+
+let tmpDir: string;
+
+beforeEach(() => { tmpDir = makeTempDir(); });
+afterEach(() => { cleanup(tmpDir); });
+
+function writeSession(sessionsDir: string, dir: string, name: string, header: object): string {
+	const filePath = path.join(sessionsDir, dir, name);
+	fs.mkdirSync(path.dirname(filePath), { recursive: true });
+	fs.writeFileSync(filePath, JSON.stringify({ type: "session", timestamp: new Date().toISOString(), ...header }) + "\n", "utf-8");
+	return filePath;
+}
+
+describe("matchesProjectPattern", () => {
+	it("matches the directory and everything below it", () => {
+		assert.ok(matchesProjectPattern("/home/me/work", "/home/me/work"));
+		assert.ok(matchesProjectPattern("/home/me/work", "/home/me/work/app/src"));
+		assert.ok(!matchesProjectPattern("/home/me/work", "/home/me/workshop"));
+	});
+
+	it("supports * and ** globs", () => {
+		assert.ok(matchesProjectPattern("/home/*/code", "/home/sam/code/app"));
+		assert.ok(matchesProjectPattern("**/scratch-*", "/Users/sam/tmp/scratch-42/x"));
+		assert.ok(!matchesProjectPattern("/home/*/code", "/srv/code"));
+	});
+
+	it("normalizes Windows separators", () => {
+		assert.ok(matchesProjectPattern("C:/Users/sam/code", "C:\\Users\\sam\\code\\app"));
+	});
+});
+
+describe("includesSessionCwd", () => {
+	it("applies include patterns before excludes", () => {
+		const config = makeConfig(tmpDir, { sessionInclude: ["/home/me/code"], sessionExclude: ["/home/me/code/sandbox"] });
+		assert.ok(includesSessionCwd(config, "/home/me/code/app"));
+		assert.ok(!includesSessionCwd(config, "/home/me/code/sandbox/x"));
+		assert.ok(!includesSessionCwd(config, "/home/me/other"));
+	});
+
+	it("excludes temp directories by default", () => {
+		const config = makeConfig(tmpDir, { sessionExclude: defaultSessionExcludes() });
+		assert.ok(!includesSessionCwd(config, "/tmp/pi-eval-1"));
+		assert.ok(!includesSessionCwd(config, "/var/folders/ab/xyz/T/pi-123"));
+		assert.ok(includesSessionCwd(config, "/home/me/app"));
+		assert.ok(includesSessionCwd(config, "/Users/me/app"));
+	});
+});
+
+describe("session discovery config", () => {
+	it("parses include and exclude lists and expands ~", () => {
+		const config = buildConfig({ HOME: "/home/me", PI_SESSIONS_INCLUDE: "~/code, /srv/*", PI_SESSIONS_EXCLUDE: "" });
+		assert.deepStrictEqual(config.sessionInclude, ["/home/me/code", "/srv/*"]);
+		assert.deepStrictEqual(config.sessionExclude, []);
+		assert.deepStrictEqual(buildConfig({ HOME: "/home/me" }).sessionExclude, defaultSessionExcludes());
+	});
+});
+
+describe("decodeSessionDir", () => {
+	it("reverses pi's cwd encoding for POSIX and Windows paths", () => {
+		assert.strictEqual(decodeSessionDir("--home-me-app--"), "/home/me/app");
+		assert.strictEqual(decodeSessionDir("--Users-me-app--"), "/Users/me/app");
+		assert.strictEqual(decodeSessionDir("--C--Users-me-app--"), "C:/Users/me/app");
+	});
+});
+
+describe("discoverSessionFiles", () => {
+	it("finds sessions under any platform's home directory", () => {
+		const config = makeConfig(tmpDir, { sessionExclude: defaultSessionExcludes() });
+		const linux = writeSession(config.sessionsDir, "--home-me-app--", "a.jsonl", { cwd: "/home/me/app" });
+		const mac = writeSession(config.sessionsDir, "--Users-me-app--", "b.jsonl", { cwd: "/Users/me/app" });
+		writeSession(config.sessionsDir, "--tmp-pi-eval--", "c.jsonl", { cwd: "/tmp/pi-eval" });
+		assert.deepStrictEqual(discoverSessionFiles(config, 0), [mac, linux]);
+	});
+
+	it("skips files older than the cutoff", () => {
+		const config = makeConfig(tmpDir);
+		const file = writeSession(config.sessionsDir, "--home-me-app--", "a.jsonl", { cwd: "/home/me/app" });
+		const old = new Date(Date.now() - 2 * 24 * 60 * 60 * 1000);
+		fs.utimesSync(file, old, old);
+		assert.deepStrictEqual(discoverSessionFiles(config, Date.now() - 24 * 60 * 60 * 1000), []);
+	});
+
+	it("falls back to the directory name when the header has no cwd", () => {
+		const config = makeConfig(tmpDir, { sessionInclude: ["/home/me/work"] });
+		const kept = writeSession(config.sessionsDir, "--home-me-work-api--", "a.jsonl", {});
+		writeSession(config.sessionsDir, "--home-me-play--", "b.jsonl", {});
+		assert.deepStrictEqual(discoverSessionFiles(config, 0), [kept]);
+	});
+
+	it("returns nothing when the sessions directory is missing", () => {
+		assert.deepStrictEqual(discoverSessionFiles(makeConfig(tmpDir), 0), []);
+	});
+});
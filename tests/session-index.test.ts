@@ -0,0 +1,122 @@
+import { describe, it, beforeEach, afterEach } from "node:test";
+import assert from "node:assert";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import {
+	updateSessionIndex,
+	sessionIndexPath,
+	sessionTotals,
+	indexedSessionInfo,
+	scanSession,
+} from "../lib.ts";
+import { makeTempDir, cleanup, makeConfig } from "./helpers.ts";
+
+let tmpDir: string;
+
+beforeEach(() => { tmpDir = makeTempDir(); });
+afterEach(() => { cleanup(tmpDir); });
+
+const header = { type: "session", id: "s1", timestamp: "2026-02-18T09:00:00.000Z", cwd: "/home/me/app" };
+
+function assistant(cost: number, opts: { model?: string; timestamp?: number } = {}) {
+	return {
+		type: "message",
+		message: {
+			role: "assistant",
+			provider: "anthropic",
+			model: opts.model ?? "claude-sonnet",
+			timestamp: opts.timestamp ?? Date.parse("2026-02-18T10:00:00Z"),
+			usage: { input: 100, output: 20, cacheRead: 1000, cacheWrite: 50, totalTokens: 1170, cost: { total: cost } },
+			content: [{ type: "text", text: "ok" }],
+		},
+	};
+}
+
+function lines(entries: object[]): string {
+	return entries.map(e => JSON.stringify(e)).join("\n") + "\n";
+}
+
+function setup(entries: object[]) {
+	const config = makeConfig(tmpDir, { timezone: "UTC" });
+	const file = path.join(config.sessionsDir, "--home-me-app--", "s1.jsonl");
+	fs.mkdirSync(path.dirname(file), { recursive: true });
+	fs.writeFileSync(file, lines(entries), "utf-8");
+	return { config, file };
+}
+
+describe("updateSessionIndex", () => {
+	it("indexes header fields, title and usage per day and model", async () => {
+		const { config, file } = setup([
+			header,
+			{ type: "message", message: { role: "user", content: "Fix the flaky test" } },
+			assistant(0.5),
+			assistant(0.25, { model: "claude-haiku" }),
+			assistant(1, { timestamp: Date.parse("2026-02-19T01:00:00Z") }),
+		]);
+		const session = (await updateSessionIndex(config, [file])).sessions[file];
+		assert.strictEqual(session.id, "s1");
+		assert.strictEqual(session.cwd, "/home/me/app");
+		assert.strictEqual(session.firstUser, "Fix the flaky test");
+		assert.deepStrictEqual(Object.keys(session.usage).sort(), [
+			"2026-02-18 anthropic/claude-haiku",
+			"2026-02-18 anthropic/claude-sonnet",
+			"2026-02-19 anthropic/claude-sonnet",
+		]);
+		assert.deepStrictEqual(sessionTotals(session), { messages: 3, input: 300, output: 60, cacheRead: 3000, cacheWrite: 150, cost: 1.75 });
+		assert.ok(fs.existsSync(sessionIndexPath(config)));
+	});
+
+	it("reports the same title, cwd and cost as scanSession", async () => {
+		const { config, file } = setup([
+			{ ...header, timestamp: new Date().toISOString(), parentSession: "/p.jsonl" },
+			{ type: "message", message: { role: "user", content: [{ type: "text", text: "Hello there" }] } },
+			{ type: "session_info", name: "Named session" },
+			assistant(0.5),
+		]);
+		const info = indexedSessionInfo(file, (await updateSessionIndex(config, [file])).sessions[file]);
+		assert.deepStrictEqual(info, await scanSession(file));
+	});
+
+	it("skips unchanged files and resumes growing ones from the last offset", async () => {
+		const { config, file } = setup([header, assistant(0.5)]);
+		const first = (await updateSessionIndex(config, [file])).sessions[file];
+		assert.strictEqual(first.offset, fs.statSync(file).size);
+
+		// Unchanged: the file is not read again, so a corrupted index entry survives
+		const stored = JSON.parse(fs.readFileSync(sessionIndexPath(config), "utf-8"));
+		stored.sessions[file].name = "from index";
+		fs.writeFileSync(sessionIndexPath(config), JSON.stringify(stored));
+		assert.strictEqual((await updateSessionIndex(config, [file])).sessions[file].name, "from index");
+
+		fs.appendFileSync(file, lines([assistant(0.25)]));
+		const grown = (await updateSessionIndex(config, [file])).sessions[file];
+		assert.strictEqual(grown.name, "from index");
+		assert.strictEqual(sessionTotals(grown).cost, 0.75);
+	});
+
+	it("leaves a partly written last line for the next update", async () => {
+		const { config, file } = setup([header]);
+		const partial = JSON.stringify(assistant(0.5));
+		fs.appendFileSync(file, partial.slice(0, 20));
+		const before = (await updateSessionIndex(config, [file])).sessions[file];
+		assert.strictEqual(sessionTotals(before).cost, 0);
+		fs.appendFileSync(file, `${partial.slice(20)}\n`);
+		assert.strictEqual(sessionTotals((await updateSessionIndex(config, [file])).sessions[file]).cost, 0.5);
+	});
+
+	it("rescans a file that was rewritten", async () => {
+		const { config, file } = setup([header, assistant(0.5), assistant(0.5)]);
+		await updateSessionIndex(config, [file]);
+		fs.writeFileSync(file, lines([{ ...header, id: "s2" }, assistant(0.1), assistant(0.1), assistant(0.1)]));
+		const session = (await updateSessionIndex(config, [file])).sessions[file];
+		assert.strictEqual(session.id, "s2");
+		assert.ok(Math.abs(sessionTotals(session).cost - 0.3) < 1e-9);
+	});
+
+	it("drops deleted transcripts", async () => {
+		const { config, file } = setup([header]);
+		await updateSessionIndex(config, [file]);
+		fs.rmSync(file);
+		assert.deepStrictEqual((await updateSessionIndex(config, [])).sessions, {});
+	});
+});
@@ -0,0 +1,150 @@
+import { describe, it, beforeEach, afterEach } from "node:test";
+import assert from "node:assert";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import {
+	scanSession,
+	summarizeSession,
+	countChildSessions,
+	formatSessionSummary,
+	hasSessionSummary,
+	upsertSessionSummary,
+	type SessionSummary,
+} from "../lib.ts";
+import { makeTempDir, cleanup, makeConfig } from "./helpers.ts";
+
+let tmpDir: string;
+
+beforeEach(() => { tmpDir = makeTempDir(); });
+afterEach(() => { cleanup(tmpDir); });
+
+function writeSessionFile(dir: string, name: string, lines: any[]): string {
+	fs.mkdirSync(dir, { recursive: true });
+	const filePath = path.join(dir, name);
+	fs.writeFileSync(filePath, lines.map(l => JSON.stringify(l)).join("\n") + "\n", "utf-8");
+	return filePath;
+}
+
+const started = "2026-02-18T09:00:00.000Z";
+
+function mainSession(dir: string, extra: any[] = []): string {
+	return writeSessionFile(dir, "main.jsonl", [
+		{ type: "session", id: "abc12345-6789", timestamp: started, cwd: "/work/app" },
+		{ type: "session_info", name: "Fix login redirect" },
+		{ type: "message", message: { role: "user", content: "The login redirect loops" } },
+		{ type: "message", message: { role: "assistant", usage: { cost: { total: 0.5 } }, content: [
+			{ type: "toolCall", id: "1", name: "edit", arguments: { path: "/work/app/src/auth.ts" } },
+			{ type: "toolCall", id: "2", name: "read", arguments: { path: "/work/app/README.md" } },
+		] } },
+		{ type: "message", message: { role: "assistant", usage: { cost: { total: 0.25 } }, content: [
+			{ type: "toolCall", id: "3", name: "write", arguments: { path: "/etc/hosts" } },
+			{ type: "toolCall", id: "4", name: "edit", arguments: { path: "src/auth.ts" } },
+			{ type: "text", text: "Fixed: the redirect now checks the session first.\nDetails follow." },
+		] } },
+		...extra,
+	]);
+}
+
+describe("scanSession lookback", () => {
+	it("can be widened for sessions older than a day", async () => {
+		const file = mainSession(tmpDir);
+		assert.strictEqual(await scanSession(file), null);
+		assert.strictEqual((await scanSession(file, { lookbackMs: Infinity }))!.title, "Fix login redirect");
+	});
+});
+
+describe("summarizeSession", () => {
+	it("collects title, cost, files touched and the outcome", async () => {
+		const config = makeConfig(tmpDir);
+		const file = mainSession(path.join(config.sessionsDir, "--work-app--"));
+		const summary = await summarizeSession(config, file);
+		assert.deepStrictEqual(summary, {
+			id: "abc12345-6789",
+			started,
+			title: "Fix login redirect",
+			cwd: "/work/app",
+			cost: 0.75,
+			subAgents: 0,
+			files: ["src/auth.ts", "/etc/hosts"],
+			outcome: "Fixed: the redirect now checks the session first.",
+		});
+	});
+
+	it("counts sub-agent sessions that name it as parent", async () => {
+		const config = makeConfig(tmpDir);
+		const dir = path.join(config.sessionsDir, "--work-app--");
+		const file = mainSession(dir);
+		writeSessionFile(dir, "child1.jsonl", [{ type: "session", id: "c1", timestamp: started, parentSession: file }]);
+		writeSessionFile(dir, "child2.jsonl", [{ type: "session", id: "c2", timestamp: started, parentSession: file }]);
+		writeSessionFile(dir, "other.jsonl", [{ type: "session", id: "o", timestamp: started, parentSession: "/elsewhere.jsonl" }]);
+		assert.strictEqual(countChildSessions(config, file, 0), 2);
+		assert.strictEqual(countChildSessions(config, file, Date.now() + 60_000), 0);
+		assert.strictEqual((await summarizeSession(config, file))!.subAgents, 2);
+	});
+
+	it("skips housekeeping, sub-agent and empty sessions", async () => {
+		const config = makeConfig(tmpDir);
+		const housekeeping = writeSessionFile(tmpDir, "h.jsonl", [
+			{ type: "session", id: "h", timestamp: started, cwd: "/" },
+			{ type: "message", message: { role: "user", content: "clear done items" } },
+		]);
+		const child = writeSessionFile(tmpDir, "c.jsonl", [
+			{ type: "session", id: "c", timestamp: started, parentSession: "/p.jsonl" },
+			{ type: "message", message: { role: "user", content: "Do the subtask" } },
+		]);
+		const empty = writeSessionFile(tmpDir, "e.jsonl", [
+			{ type: "session", id: "e", timestamp: started },
+			{ type: "session_info", name: "Named but unused" },
+		]);
+		assert.strictEqual(await summarizeSession(config, housekeeping), null);
+		assert.strictEqual(await summarizeSession(config, child), null);
+		assert.strictEqual(await summarizeSession(config, empty), null);
+	});
+});
+
+const summary: SessionSummary = {
+	id: "abc12345-6789",
+	started,
+	title: "Fix login redirect",
+	cwd: "/work/app",
+	cost: 0.75,
+	subAgents: 2,
+	files: ["a.ts", "b.ts", "c.ts"],
+	outcome: "Fixed it.",
+};
+
+describe("formatSessionSummary", () => {
+	it("renders a stamped entry with the session marker", () => {
+		assert.strictEqual(formatSessionSummary(summary, { timestamp: "2026-02-18 10:00:00+00:00", maxFiles: 2 }), [
+			"<!-- 2026-02-18 10:00:00+00:00 [abc12345] session:abc12345-6789 -->",
+			"### Session: Fix login redirect",
+			"- cwd: /work/app",
+			"- cost: $0.75, 2 sub-agents",
+			"- files: a.ts, b.ts (+1 more)",
+			"- outcome: Fixed it.",
+		].join("\n"));
+	});
+});
+
+describe("upsertSessionSummary", () => {
+	const first = formatSessionSummary(summary, { timestamp: "2026-02-18 10:00:00+00:00" });
+	const second = formatSessionSummary({ ...summary, cost: 2 }, { timestamp: "2026-02-18 15:00:00+00:00" });
+
+	it("appends the first entry", () => {
+		const log = upsertSessionSummary("<!-- 2026-02-18 08:00:00+00:00 [x] -->\nmorning note", summary.id, first);
+		assert.strictEqual(log, `<!-- 2026-02-18 08:00:00+00:00 [x] -->\nmorning note\n\n${first}`);
+		assert.ok(hasSessionSummary(log, summary.id));
+		assert.ok(!hasSessionSummary(log, "other"));
+	});
+
+	it("replaces the entry of a resumed session in place", () => {
+		const log = `${first}\n\n<!-- 2026-02-18 12:00:00+00:00 [x] -->\nlater note\n`;
+		const updated = upsertSessionSummary(log, summary.id, second);
+		assert.strictEqual(updated, `${second}\n\n<!-- 2026-02-18 12:00:00+00:00 [x] -->\nlater note\n`);
+	});
+
+	it("stops at a following section heading", () => {
+		const log = `${first}\n\n## Completed\n\n- [x] thing\n`;
+		assert.strictEqual(upsertSessionSummary(log, summary.id, second), `${second}\n\n## Completed\n\n- [x] thing\n`);
+	});
+});